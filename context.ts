@@ -101,11 +101,19 @@ export type HandlerConfiguration = {
   readonly layers?: string[];
   /**
    * A boolean indicating whether the request.body should be passed as a raw string to the handler instead of parsed JSON.
+   * Binary bodies are passed as a Buffer.
    * @default false
    */
   readonly rawBody?: boolean;
 };
 
+export type Principal = {
+  readonly subject: string;
+  readonly scopes: readonly string[];
+  readonly roles: readonly string[];
+  readonly claims: { readonly [name: string]: Json };
+};
+
 export type Context = {
   readonly env: Environment;
   readonly log: Logger;
@@ -124,6 +132,10 @@ export type Context = {
     readonly fileName: string;
     readonly revision?: string;
   };
+  /**
+   * The verified identity of the caller, for handlers with authentication configured.
+   */
+  readonly principal?: Principal;
 
   emit(
     topic: string,
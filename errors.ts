@@ -0,0 +1,134 @@
+import type { Json } from './context.js'
+
+export type HttpErrorOptions = {
+    /**
+     * A machine-readable error code, e.g. `order-not-found`. Defaults to one derived from the status.
+     */
+    readonly code?: string
+    /**
+     * A URI identifying the problem type. Defaults to `about:blank`.
+     */
+    readonly type?: string
+    readonly headers?: { readonly [key: string]: string }
+    /**
+     * Additional members of the problem details.
+     */
+    readonly extensions?: { readonly [key: string]: Json }
+}
+
+/**
+ * An error that is sent to the client as an `application/problem+json` response, with the
+ * operation id as `instance`. Server errors, ie. 5xx, are logged as errors; client errors are not.
+ */
+export class HttpError extends Error {
+    readonly statusCode: number
+    readonly code: string
+    readonly type: string
+    readonly headers: { readonly [key: string]: string }
+    readonly extensions: { readonly [key: string]: Json }
+
+    constructor(statusCode: number, code: string, message: string, options?: HttpErrorOptions) {
+        super(message)
+        this.name = new.target.name
+        this.statusCode = statusCode
+        this.code = options?.code ?? code
+        this.type = options?.type ?? 'about:blank'
+        this.headers = options?.headers ?? {}
+        this.extensions = options?.extensions ?? {}
+    }
+}
+
+export type RetryableHttpErrorOptions = HttpErrorOptions & {
+    /**
+     * Seconds until the client may retry, sent as `Retry-After`.
+     */
+    readonly retryAfter?: number
+}
+
+export class BadRequest extends HttpError {
+    constructor(message = 'Bad request.', options?: HttpErrorOptions) {
+        super(400, 'bad-request', message, options)
+    }
+}
+
+export class Unauthorized extends HttpError {
+    constructor(message = 'Unauthorized.', options?: HttpErrorOptions) {
+        super(401, 'unauthorized', message, options)
+    }
+}
+
+export class Forbidden extends HttpError {
+    constructor(message = 'Forbidden.', options?: HttpErrorOptions) {
+        super(403, 'forbidden', message, options)
+    }
+}
+
+export class NotFound extends HttpError {
+    constructor(message = 'Not found.', options?: HttpErrorOptions) {
+        super(404, 'not-found', message, options)
+    }
+}
+
+export class Conflict extends HttpError {
+    constructor(message = 'Conflict.', options?: HttpErrorOptions) {
+        super(409, 'conflict', message, options)
+    }
+}
+
+export class Gone extends HttpError {
+    constructor(message = 'Gone.', options?: HttpErrorOptions) {
+        super(410, 'gone', message, options)
+    }
+}
+
+export class PreconditionFailed extends HttpError {
+    constructor(message = 'Precondition failed.', options?: HttpErrorOptions) {
+        super(412, 'precondition-failed', message, options)
+    }
+}
+
+export class PayloadTooLarge extends HttpError {
+    constructor(message = 'Payload too large.', options?: HttpErrorOptions) {
+        super(413, 'payload-too-large', message, options)
+    }
+}
+
+export class UnprocessableEntity extends HttpError {
+    constructor(message = 'Unprocessable entity.', options?: HttpErrorOptions) {
+        super(422, 'unprocessable-entity', message, options)
+    }
+}
+
+export class TooManyRequests extends HttpError {
+    constructor(message = 'Too many requests.', options?: RetryableHttpErrorOptions) {
+        super(429, 'too-many-requests', message, withRetryAfter(options))
+    }
+}
+
+export class InternalServerError extends HttpError {
+    constructor(message = 'Internal server error.', options?: HttpErrorOptions) {
+        super(500, 'internal-server-error', message, options)
+    }
+}
+
+export class BadGateway extends HttpError {
+    constructor(message = 'Bad gateway.', options?: HttpErrorOptions) {
+        super(502, 'bad-gateway', message, options)
+    }
+}
+
+export class ServiceUnavailable extends HttpError {
+    constructor(message = 'Service unavailable.', options?: RetryableHttpErrorOptions) {
+        super(503, 'service-unavailable', message, withRetryAfter(options))
+    }
+}
+
+function withRetryAfter(options: RetryableHttpErrorOptions | undefined) {
+    if (options?.retryAfter === undefined) {
+        return options
+    }
+    return {
+        ...options,
+        headers: { 'retry-after': Math.ceil(options.retryAfter).toString(), ...options.headers },
+    }
+}
@@ -0,0 +1,26 @@
+import { Context, HandlerConfiguration, Json } from './context.js'
+import { registerEventHandler } from './host/registry.js'
+
+export * from './context.js'
+
+export type Event = {
+    readonly topic: string
+    readonly type: string
+    readonly subject: string
+    readonly data?: Json
+    readonly messageId?: string
+    readonly timestamp: Date
+}
+
+export type Handler = (context: Context, event: Event) => Promise<void> | void
+
+export function on(topic: string, type: string, fn: Handler): void
+export function on(topic: string, type: string, config: HandlerConfiguration, fn: Handler): void
+export function on(
+    topic: string,
+    type: string,
+    configOrHandler: HandlerConfiguration | Handler,
+    fn?: Handler,
+): void {
+    registerEventHandler(topic, type, configOrHandler, fn)
+}
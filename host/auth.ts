@@ -0,0 +1,296 @@
+import {
+    createHmac,
+    createPublicKey,
+    createVerify,
+    JsonWebKey,
+    KeyObject,
+    timingSafeEqual,
+} from 'node:crypto'
+import { get } from 'node:https'
+import type { Environment, Json, Principal } from '../context.js'
+import { Forbidden, Unauthorized } from '../errors.js'
+import type { AuthConfiguration, JsonWebKeySet, JwtAlgorithm, JwtKey } from '../http.js'
+
+type Headers = { readonly [key: string]: string }
+
+type VerificationKey = { readonly kid?: string } & (
+    | { readonly algorithm: 'HS256'; readonly key: Buffer }
+    | { readonly algorithm: Exclude<JwtAlgorithm, 'HS256'>; readonly key: KeyObject }
+)
+
+const jwksTtl = 10 * 60 * 1000
+const jwksRefreshInterval = 30 * 1000
+const jwksCache = new Map<
+    string | (() => Promise<JsonWebKeySet>),
+    { keys: VerificationKey[]; loaded: number }
+>()
+
+/**
+ * Verifies the bearer token of a request. Returns `undefined` for requests without a token if
+ * authentication is optional.
+ */
+export async function authenticate(
+    config: AuthConfiguration | undefined,
+    env: Environment,
+    headers: Headers,
+): Promise<Principal | undefined> {
+    if (!config) {
+        return undefined
+    }
+    const [scheme, token] = (headers.authorization ?? '').split(' ')
+    if (scheme?.toLowerCase() !== 'bearer' || !token) {
+        if (config.optional && !headers.authorization) {
+            return undefined
+        }
+        throw unauthorized('Missing bearer token.')
+    }
+    const { header, claims, signedPart, signature } = decode(token)
+    const key = await findKey(config, env, header)
+    if (!verifySignature(key, signedPart, signature)) {
+        throw unauthorized('Invalid token signature.')
+    }
+    checkClaims(config, claims)
+    if (typeof claims.sub !== 'string' || claims.sub === '') {
+        throw unauthorized('Token has no subject.')
+    }
+
+    return {
+        subject: claims.sub,
+        scopes: scopesOf(claims),
+        roles: Array.isArray(claims.roles)
+            ? claims.roles.filter((role): role is string => typeof role === 'string')
+            : [],
+        claims,
+    }
+}
+
+/**
+ * Checks that the principal has the required scopes and roles.
+ */
+export function authorize(config: AuthConfiguration | undefined, principal: Principal | undefined) {
+    if (!config || !principal) {
+        return
+    }
+    const missingScopes = (config.scopes ?? []).filter(s => !principal.scopes.includes(s))
+    if (missingScopes.length !== 0) {
+        throw new Forbidden(`Missing scopes: ${missingScopes.join(', ')}.`, {
+            code: 'insufficient-scope',
+            headers: {
+                'www-authenticate': `Bearer error="insufficient_scope", scope="${(
+                    config.scopes ?? []
+                ).join(' ')}"`,
+            },
+        })
+    }
+    if (config.roles && !config.roles.some(role => principal.roles.includes(role))) {
+        throw new Forbidden(`Requires one of the roles ${config.roles.join(', ')}.`, {
+            code: 'insufficient-role',
+        })
+    }
+}
+
+function unauthorized(message: string) {
+    return new Unauthorized(message, {
+        code: 'invalid-token',
+        headers: { 'www-authenticate': 'Bearer error="invalid_token"' },
+    })
+}
+
+function decode(token: string) {
+    const parts = token.split('.')
+    if (parts.length !== 3) {
+        throw unauthorized('Malformed token.')
+    }
+    const [header, payload, signature] = parts as [string, string, string]
+    try {
+        const decodedHeader = JSON.parse(Buffer.from(header, 'base64url').toString('utf-8')) as {
+            alg?: string
+            kid?: string
+        }
+        const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8')) as {
+            [name: string]: Json
+        }
+        if (typeof claims !== 'object' || claims === null || Array.isArray(claims)) {
+            throw new Error('Claims are not an object.')
+        }
+        return {
+            header: decodedHeader,
+            claims,
+            signedPart: `${header}.${payload}`,
+            signature: Buffer.from(signature, 'base64url'),
+        }
+    } catch {
+        throw unauthorized('Malformed token.')
+    }
+}
+
+async function findKey(
+    config: AuthConfiguration,
+    env: Environment,
+    header: { alg?: string; kid?: string },
+): Promise<VerificationKey> {
+    const matches = (key: VerificationKey) =>
+        key.algorithm === header.alg && (!header.kid || !key.kid || key.kid === header.kid)
+    const local = (typeof config.keys === 'function' ? config.keys(env) : config.keys ?? []).map(
+        toVerificationKey,
+    )
+    const key = local.find(matches)
+    if (key) {
+        return key
+    }
+    if (config.jwks) {
+        const jwks = await loadJwks(config.jwks, false)
+        const found = jwks.find(matches) ?? (await loadJwks(config.jwks, true)).find(matches)
+        if (found) {
+            return found
+        }
+    }
+    throw unauthorized('Unknown token key or algorithm.')
+}
+
+function toVerificationKey(key: JwtKey): VerificationKey {
+    if (key.algorithm === 'HS256') {
+        return { kid: key.kid, algorithm: key.algorithm, key: secretOf(key.key) }
+    }
+    return {
+        kid: key.kid,
+        algorithm: key.algorithm,
+        key:
+            typeof key.key === 'string' || Buffer.isBuffer(key.key)
+                ? createPublicKey(key.key)
+                : createPublicKey({ key: key.key, format: 'jwk' }),
+    }
+}
+
+function secretOf(key: JwtKey['key']) {
+    if (typeof key === 'string') {
+        return Buffer.from(key)
+    }
+    if (Buffer.isBuffer(key)) {
+        return key
+    }
+    if (key.kty === 'oct' && typeof key.k === 'string') {
+        return Buffer.from(key.k, 'base64url')
+    }
+    throw new Error('An HS256 key must be a secret or an oct JSON Web Key.')
+}
+
+async function loadJwks(
+    source: string | (() => Promise<JsonWebKeySet>),
+    refresh: boolean,
+): Promise<VerificationKey[]> {
+    const cached = jwksCache.get(source)
+    const age = cached ? Date.now() - cached.loaded : Infinity
+    if (cached && (refresh ? age < jwksRefreshInterval : age < jwksTtl)) {
+        return cached.keys
+    }
+    const jwks = typeof source === 'string' ? await fetchJson(source) : await source()
+    const keys = jwks.keys.flatMap(jwk => {
+        const algorithm = jwkAlgorithm(jwk)
+        return algorithm
+            ? [{ kid: jwk.kid, algorithm, key: createPublicKey({ key: jwk, format: 'jwk' }) }]
+            : []
+    })
+    jwksCache.set(source, { keys, loaded: Date.now() })
+    return keys
+}
+
+function jwkAlgorithm(
+    jwk: JsonWebKey & { alg?: string; use?: string },
+): Exclude<JwtAlgorithm, 'HS256'> | undefined {
+    if (jwk.use !== undefined && jwk.use !== 'sig') {
+        return undefined
+    }
+    if (jwk.alg === 'RS256' || (jwk.alg === undefined && jwk.kty === 'RSA')) {
+        return 'RS256'
+    }
+    if (jwk.alg === 'ES256' || (jwk.alg === undefined && jwk.kty === 'EC' && jwk.crv === 'P-256')) {
+        return 'ES256'
+    }
+    return undefined
+}
+
+function fetchJson(url: string) {
+    return new Promise<JsonWebKeySet>((resolve, reject) => {
+        const request = get(
+            url,
+            { headers: { accept: 'application/json' }, timeout: 5000 },
+            response => {
+                const chunks: Buffer[] = []
+                response.on('data', (chunk: Buffer) => chunks.push(chunk))
+                response.on('end', () => {
+                    if (response.statusCode !== 200) {
+                        reject(
+                            new Error(`Could not load JWKS from ${url}: ${response.statusCode}.`),
+                        )
+                        return
+                    }
+                    try {
+                        resolve(
+                            JSON.parse(Buffer.concat(chunks).toString('utf-8')) as JsonWebKeySet,
+                        )
+                    } catch (e) {
+                        reject(e)
+                    }
+                })
+                response.on('error', reject)
+            },
+        )
+        request.on('timeout', () =>
+            request.destroy(new Error(`Timed out loading JWKS from ${url}.`)),
+        )
+        request.on('error', reject)
+    })
+}
+
+function verifySignature(key: VerificationKey, signedPart: string, signature: Buffer) {
+    switch (key.algorithm) {
+        case 'HS256': {
+            const expected = createHmac('sha256', key.key).update(signedPart).digest()
+            return expected.length === signature.length && timingSafeEqual(expected, signature)
+        }
+        case 'RS256':
+            return createVerify('RSA-SHA256').update(signedPart).verify(key.key, signature)
+        case 'ES256':
+            return createVerify('SHA256')
+                .update(signedPart)
+                .verify({ key: key.key, dsaEncoding: 'ieee-p1363' }, signature)
+    }
+}
+
+function checkClaims(config: AuthConfiguration, claims: { [name: string]: Json }) {
+    const now = Date.now() / 1000
+    const tolerance = config.clockTolerance ?? 60
+    if (typeof claims.exp === 'number' && claims.exp + tolerance < now) {
+        throw unauthorized('Token has expired.')
+    }
+    if (typeof claims.nbf === 'number' && claims.nbf - tolerance > now) {
+        throw unauthorized('Token is not yet valid.')
+    }
+    if (
+        config.issuer !== undefined &&
+        (typeof claims.iss !== 'string' || !oneOf(config.issuer).includes(claims.iss))
+    ) {
+        throw unauthorized('Unexpected token issuer.')
+    }
+    if (config.audience !== undefined) {
+        const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud]
+        if (!oneOf(config.audience).some(a => audiences.includes(a))) {
+            throw unauthorized('Unexpected token audience.')
+        }
+    }
+}
+
+function oneOf(value: string | readonly string[]): readonly string[] {
+    return typeof value === 'string' ? [value] : value
+}
+
+function scopesOf(claims: { [name: string]: Json }) {
+    if (typeof claims.scope === 'string') {
+        return claims.scope.split(' ').filter(s => s !== '')
+    }
+    if (Array.isArray(claims.scp)) {
+        return claims.scp.filter((s): s is string => typeof s === 'string')
+    }
+    return []
+}
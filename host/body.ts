@@ -0,0 +1,162 @@
+import type { Json } from '../context.js'
+import { BadRequest, PayloadTooLarge } from '../errors.js'
+import type { FilePart, FormBody, HttpHandlerConfiguration, RequestBody } from '../http.js'
+
+export type RawBody = {
+    readonly body: string | Buffer
+    readonly isBase64Encoded?: boolean
+}
+
+const defaultMaxFileSize = 10 * 1024 * 1024
+const defaultMaxFiles = 10
+
+/**
+ * Parses a raw request body according to its content type. JSON, form and multipart bodies are
+ * parsed, text bodies are strings and anything else is a buffer.
+ */
+export function parseBody(
+    raw: RawBody,
+    contentType: string | undefined,
+    config: HttpHandlerConfiguration | undefined,
+): RequestBody {
+    const binary = typeof raw.body !== 'string' || raw.isBase64Encoded === true
+    if (config?.rawBody) {
+        return binary ? toBuffer(raw) : raw.body
+    }
+    const [mediaType = '', ...parameters] = (contentType ?? '').split(';').map(p => p.trim())
+    const type = mediaType.toLowerCase()
+    if (type === 'application/json' || type.endsWith('+json')) {
+        return parseJson(toText(raw))
+    }
+    if (type === 'application/x-www-form-urlencoded') {
+        return parseForm(toText(raw))
+    }
+    if (type === 'multipart/form-data') {
+        const boundary = parameters
+            .find(p => p.toLowerCase().startsWith('boundary='))
+            ?.substring('boundary='.length)
+            .replace(/^"(.*)"$/u, '$1')
+        if (!boundary) {
+            throw new BadRequest('Missing multipart boundary.')
+        }
+        return parseMultipart(toBuffer(raw), boundary, config)
+    }
+    if (!binary || type === '' || type.startsWith('text/')) {
+        return toText(raw)
+    }
+    return toBuffer(raw)
+}
+
+function toBuffer(raw: RawBody) {
+    if (typeof raw.body !== 'string') {
+        return raw.body
+    }
+    return Buffer.from(raw.body, raw.isBase64Encoded ? 'base64' : 'utf-8')
+}
+
+function toText(raw: RawBody) {
+    if (typeof raw.body === 'string' && !raw.isBase64Encoded) {
+        return raw.body
+    }
+    return toBuffer(raw).toString('utf-8')
+}
+
+function parseJson(text: string) {
+    try {
+        return JSON.parse(text) as Json
+    } catch {
+        throw new BadRequest('Malformed JSON body.')
+    }
+}
+
+function parseForm(text: string): FormBody {
+    const fields: { [name: string]: string | string[] } = {}
+    for (const [name, value] of new URLSearchParams(text)) {
+        addField(fields, name, value)
+    }
+    return fields
+}
+
+function addField(fields: { [name: string]: string | string[] }, name: string, value: string) {
+    const existing = fields[name]
+    if (existing === undefined) {
+        fields[name] = value
+    } else if (Array.isArray(existing)) {
+        existing.push(value)
+    } else {
+        fields[name] = [existing, value]
+    }
+}
+
+function parseMultipart(
+    body: Buffer,
+    boundary: string,
+    config: HttpHandlerConfiguration | undefined,
+) {
+    const maxFileSize = config?.multipart?.maxFileSize ?? defaultMaxFileSize
+    const maxFiles = config?.multipart?.maxFiles ?? defaultMaxFiles
+    const delimiter = Buffer.from(`--${boundary}`)
+    const fields: { [name: string]: string | string[] } = {}
+    const files: FilePart[] = []
+
+    let position = body.indexOf(delimiter)
+    if (position === -1) {
+        throw new BadRequest('Malformed multipart body.')
+    }
+    for (;;) {
+        position += delimiter.length
+        if (body.subarray(position, position + 2).toString() === '--') {
+            break
+        }
+        const headerEnd = body.indexOf('\r\n\r\n', position)
+        const next = body.indexOf(Buffer.from(`\r\n--${boundary}`), headerEnd)
+        if (headerEnd === -1 || next === -1) {
+            throw new BadRequest('Malformed multipart body.')
+        }
+        const headers = partHeaders(body.subarray(position, headerEnd).toString('utf-8'))
+        const data = body.subarray(headerEnd + 4, next)
+        position = next + 2
+
+        const disposition = headers['content-disposition'] ?? ''
+        const name = dispositionParameter(disposition, 'name')
+        if (name === undefined) {
+            throw new BadRequest('Multipart part without a name.')
+        }
+        const fileName = dispositionParameter(disposition, 'filename')
+        if (fileName === undefined) {
+            addField(fields, name, data.toString('utf-8'))
+            continue
+        }
+        if (files.length === maxFiles) {
+            throw new PayloadTooLarge(`More than ${maxFiles} files.`)
+        }
+        if (data.length > maxFileSize) {
+            throw new PayloadTooLarge(`File ${fileName} is larger than ${maxFileSize} bytes.`)
+        }
+        files.push({
+            name,
+            fileName,
+            contentType: headers['content-type'] ?? 'application/octet-stream',
+            data,
+        })
+    }
+    return { fields, files }
+}
+
+function partHeaders(text: string) {
+    const headers: { [key: string]: string } = {}
+    for (const line of text.split('\r\n')) {
+        const colon = line.indexOf(':')
+        if (colon !== -1) {
+            headers[line.substring(0, colon).trim().toLowerCase()] = line
+                .substring(colon + 1)
+                .trim()
+        }
+    }
+    return headers
+}
+
+function dispositionParameter(disposition: string, name: string) {
+    const match = new RegExp(`(?:^|;)\\s*${name}=(?:"([^"]*)"|([^;\\s]*))`, 'iu').exec(disposition)
+    return match?.[1] ?? match?.[2]
+}
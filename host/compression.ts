@@ -0,0 +1,85 @@
+import { brotliCompressSync, constants, gzipSync } from 'node:zlib'
+import type { HttpHandlerConfiguration } from '../http.js'
+import type { Response } from './http.js'
+
+type Encoding = 'br' | 'gzip'
+
+const defaultThreshold = 1024
+
+/**
+ * Compresses the response body with the best encoding the client accepts, if it is larger than
+ * the threshold. Streamed and already encoded bodies are left as they are. A strong ETag of a
+ * compressed body is made weak, as it no longer identifies the bytes sent.
+ */
+export function compressResponse<T extends Response>(
+    config: HttpHandlerConfiguration | undefined,
+    requestHeaders: { readonly [key: string]: string },
+    response: T,
+): T {
+    if (config?.compression === false || response.headers['content-encoding']) {
+        return response
+    }
+    if (response.status === 304) {
+        // The client may have the compressed representation, with its weak ETag.
+        return negotiate(requestHeaders['accept-encoding'])
+            ? { ...response, headers: { ...response.headers, ...weakEtag(response.headers.etag) } }
+            : response
+    }
+    const { body } = response
+    if (body === undefined || (typeof body !== 'string' && !Buffer.isBuffer(body))) {
+        return response
+    }
+    const data =
+        typeof body === 'string'
+            ? Buffer.from(body, response.isBase64Encoded ? 'base64' : 'utf-8')
+            : body
+    if (data.length < (config?.compression?.threshold ?? defaultThreshold)) {
+        return response
+    }
+    const vary = response.headers.vary
+        ? `${response.headers.vary}, accept-encoding`
+        : 'accept-encoding'
+    const encoding = negotiate(requestHeaders['accept-encoding'])
+    if (!encoding) {
+        return { ...response, headers: { ...response.headers, vary } }
+    }
+    const { 'content-length': length, ...headers } = response.headers
+    return {
+        ...response,
+        headers: { ...headers, ...weakEtag(headers.etag), 'content-encoding': encoding, vary },
+        body: encoding === 'br' ? brotli(data) : gzipSync(data),
+        isBase64Encoded: undefined,
+    }
+}
+
+function weakEtag(etag: string | undefined) {
+    return etag === undefined || etag.startsWith('W/') ? {} : { etag: `W/${etag}` }
+}
+
+function brotli(data: Buffer) {
+    return brotliCompressSync(data, {
+        params: {
+            [constants.BROTLI_PARAM_QUALITY]: 4,
+            [constants.BROTLI_PARAM_SIZE_HINT]: data.length,
+        },
+    })
+}
+
+function negotiate(acceptEncoding: string | undefined): Encoding | undefined {
+    if (!acceptEncoding) {
+        return undefined
+    }
+    const weights = new Map<string, number>()
+    for (const part of acceptEncoding.split(',')) {
+        const [name = '', ...parameters] = part.split(';').map(p => p.trim())
+        const q = parameters.find(p => p.startsWith('q='))
+        weights.set(name.toLowerCase(), q === undefined ? 1 : Number(q.substring(2)) || 0)
+    }
+    const weight = (encoding: Encoding) => weights.get(encoding) ?? weights.get('*') ?? 0
+    const br = weight('br')
+    const gzip = weight('gzip')
+    if (br > 0 && br >= gzip) {
+        return 'br'
+    }
+    return gzip > 0 ? 'gzip' : undefined
+}
@@ -0,0 +1,103 @@
+import { createHash } from 'node:crypto'
+import type { CacheControl, HttpHandlerConfiguration } from '../http.js'
+import type { Response } from './http.js'
+
+type Headers = { readonly [key: string]: string }
+
+export function validatorHeaders(validators: {
+    readonly etag?: string
+    readonly lastModified?: Date
+}): { [key: string]: string } {
+    const headers: { [key: string]: string } = {}
+    if (validators.etag !== undefined) {
+        headers.etag = validators.etag
+    }
+    if (validators.lastModified !== undefined) {
+        headers['last-modified'] = validators.lastModified.toUTCString()
+    }
+    return headers
+}
+
+/**
+ * Whether the validators of a response match the request's `if-none-match` or, in its absence,
+ * `if-modified-since`.
+ */
+export function isNotModified(requestHeaders: Headers, responseHeaders: Headers): boolean {
+    const ifNoneMatch = requestHeaders['if-none-match']
+    if (ifNoneMatch !== undefined) {
+        const { etag } = responseHeaders
+        if (etag === undefined) {
+            return false
+        }
+        return ifNoneMatch
+            .split(',')
+            .map(tag => tag.trim())
+            .some(tag => tag === '*' || opaqueTag(tag) === opaqueTag(etag))
+    }
+    const ifModifiedSince = requestHeaders['if-modified-since']
+    const lastModified = responseHeaders['last-modified']
+    if (ifModifiedSince === undefined || lastModified === undefined) {
+        return false
+    }
+    const since = Date.parse(ifModifiedSince)
+    const modified = Date.parse(lastModified)
+    return !Number.isNaN(since) && !Number.isNaN(modified) && modified <= since
+}
+
+/**
+ * Adds the configured `cache-control` and a computed ETag to successful GET and HEAD responses,
+ * and turns them into a 304 Not Modified if the client already has the current version.
+ */
+export function conditionalResponse<T extends Response & { logBody?: unknown }>(
+    config: HttpHandlerConfiguration | undefined,
+    method: string,
+    requestHeaders: Headers,
+    response: T,
+): T {
+    if (
+        (method !== 'GET' && method !== 'HEAD') ||
+        (response.status !== 200 && response.status !== 304)
+    ) {
+        return response
+    }
+    const headers: { [key: string]: string } = { ...response.headers }
+    const cacheControl = config?.caching?.cacheControl
+    if (cacheControl !== undefined && headers['cache-control'] === undefined) {
+        headers['cache-control'] =
+            typeof cacheControl === 'string' ? cacheControl : cacheControlHeader(cacheControl)
+    }
+    const { body } = response
+    if (
+        config?.caching?.etag &&
+        headers.etag === undefined &&
+        (typeof body === 'string' || Buffer.isBuffer(body))
+    ) {
+        headers.etag = `"${createHash('sha1').update(body).digest('base64url')}"`
+    }
+    if (response.status === 304 || !isNotModified(requestHeaders, headers)) {
+        return { ...response, headers }
+    }
+    const { 'content-type': contentType, 'content-length': contentLength, ...bodyless } = headers
+    return { ...response, status: 304, headers: bodyless, body: undefined, logBody: undefined }
+}
+
+function opaqueTag(tag: string) {
+    return tag.startsWith('W/') ? tag.substring(2) : tag
+}
+
+function cacheControlHeader(cacheControl: CacheControl) {
+    return [
+        cacheControl.public && 'public',
+        cacheControl.private && 'private',
+        cacheControl.noCache && 'no-cache',
+        cacheControl.noStore && 'no-store',
+        cacheControl.mustRevalidate && 'must-revalidate',
+        cacheControl.immutable && 'immutable',
+        cacheControl.maxAge !== undefined && `max-age=${cacheControl.maxAge}`,
+        cacheControl.sharedMaxAge !== undefined && `s-maxage=${cacheControl.sharedMaxAge}`,
+        cacheControl.staleWhileRevalidate !== undefined &&
+            `stale-while-revalidate=${cacheControl.staleWhileRevalidate}`,
+    ]
+        .filter(directive => directive)
+        .join(', ')
+}
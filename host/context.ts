@@ -74,7 +74,7 @@ export function createContext(
     eventTransport: EventTransport,
     timeouts: { default: number; cap?: number },
     outerController: AbortController,
-    meta?: Metadata,
+    meta?: Partial<Metadata>,
     environment?: Environment | undefined,
     now?: (() => Date) | undefined,
 ): {
@@ -82,6 +82,10 @@ export function createContext(
     context: Omit<Context, 'log'>
     success: () => Promise<unknown>
     flush: () => Promise<void>
+    /**
+     * Aborts the handler, e.g. when the client disconnects, while still flushing logs and events.
+     */
+    abort: () => void
 } {
     const timeout =
         (timeouts.cap
@@ -123,13 +127,14 @@ export function createContext(
             port: clientInfo.clientPort,
             userAgent: clientInfo.userAgent,
         },
-        meta: meta
-            ? {
-                  packageName: meta.packageName,
-                  fileName: meta.fileName,
-                  revision: meta.revision,
-              }
-            : undefined,
+        meta:
+            meta?.packageName !== undefined && meta.fileName !== undefined
+                ? {
+                      packageName: meta.packageName,
+                      fileName: meta.fileName,
+                      revision: meta.revision,
+                  }
+                : undefined,
         emit: (topic: string, type: string, subject: string, data?: Json, messageId?: string) =>
             emitter.emit({ topic, type, subject, id: messageId }, data),
         eventBarrier: () => emitter.flush(),
@@ -157,6 +162,7 @@ export function createContext(
             await logger.flush()
             clearTimeout(flushHandle)
         },
+        abort: () => innerController.abort(),
     }
 }
 
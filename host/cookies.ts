@@ -0,0 +1,94 @@
+import type { Cookie } from '../http.js'
+
+const token = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/u
+
+export function parseCookies(header: string | undefined): { [name: string]: string } {
+    const cookies: { [name: string]: string } = {}
+    for (const pair of (header ?? '').split(';')) {
+        const equals = pair.indexOf('=')
+        if (equals === -1) {
+            continue
+        }
+        const name = pair.substring(0, equals).trim()
+        if (!name || cookies[name] !== undefined) {
+            continue
+        }
+        cookies[name] = decode(unquote(pair.substring(equals + 1).trim()))
+    }
+    return cookies
+}
+
+export function serializeCookie(cookie: Cookie): string {
+    if (!token.test(cookie.name)) {
+        throw new Error(`Invalid cookie name ${cookie.name}.`)
+    }
+    const attributes = [`${cookie.name}=${encodeURIComponent(cookie.value)}`]
+    if (cookie.domain !== undefined) {
+        if (!isAttributeValue(cookie.domain)) {
+            throw new Error(`Invalid domain for cookie ${cookie.name}.`)
+        }
+        attributes.push(`Domain=${cookie.domain}`)
+    }
+    if (cookie.path !== undefined) {
+        if (!isAttributeValue(cookie.path)) {
+            throw new Error(`Invalid path for cookie ${cookie.name}.`)
+        }
+        attributes.push(`Path=${cookie.path}`)
+    }
+    if (cookie.expires !== undefined) {
+        attributes.push(`Expires=${cookie.expires.toUTCString()}`)
+    }
+    if (cookie.maxAge !== undefined) {
+        attributes.push(`Max-Age=${Math.floor(cookie.maxAge)}`)
+    }
+    if (cookie.httpOnly) {
+        attributes.push('HttpOnly')
+    }
+    if (cookie.secure) {
+        attributes.push('Secure')
+    }
+    if (cookie.sameSite !== undefined) {
+        attributes.push(`SameSite=${cookie.sameSite}`)
+    }
+    return attributes.join('; ')
+}
+
+/**
+ * Replaces the values of a `cookie` request header, keeping the names.
+ */
+export function redactCookies(header: string): string {
+    return header
+        .split(';')
+        .map(pair => `${pair.split('=')[0]?.trim() ?? ''}=[REDACTED]`)
+        .join('; ')
+}
+
+/**
+ * Replaces the value of a `set-cookie` response header, keeping the name and attributes.
+ */
+export function redactSetCookie(header: string): string {
+    const [pair = '', ...attributes] = header.split(';')
+    return [`${pair.split('=')[0]?.trim() ?? ''}=[REDACTED]`, ...attributes].join(';')
+}
+
+/**
+ * Whether the value is free of semicolons and control characters, such as CR and LF, which would
+ * end the attribute or the header.
+ */
+function isAttributeValue(value: string) {
+    return ![...value].some(c => c === ';' || c < ' ' || c === '\u007f')
+}
+
+function unquote(value: string) {
+    return value.length > 1 && value.startsWith('"') && value.endsWith('"')
+        ? value.substring(1, value.length - 1)
+        : value
+}
+
+function decode(value: string) {
+    try {
+        return decodeURIComponent(value)
+    } catch {
+        return value
+    }
+}
@@ -0,0 +1,85 @@
+import type { CorsConfiguration } from '../http.js'
+
+type Headers = { readonly [key: string]: string }
+
+export function resolveCors(cors: string | CorsConfiguration): CorsConfiguration {
+    return typeof cors === 'string' ? { origins: cors } : cors
+}
+
+function originsOf(cors: CorsConfiguration) {
+    return typeof cors.origins === 'string'
+        ? cors.origins.split(',').map(o => o.trim())
+        : cors.origins
+}
+
+/**
+ * Throws if the configuration would let any origin make credentialed requests.
+ */
+export function checkCors(cors: string | CorsConfiguration) {
+    const config = resolveCors(cors)
+    if (config.credentials && originsOf(config).includes('*')) {
+        throw new Error('CORS with credentials requires an explicit list of origins.')
+    }
+}
+
+function allowedOrigin(cors: CorsConfiguration, origin: string | undefined) {
+    const origins = originsOf(cors)
+    if (origins.includes('*')) {
+        return '*'
+    }
+    if (origin && origins.includes(origin)) {
+        return origin
+    }
+    return undefined
+}
+
+function originHeaders(cors: CorsConfiguration, origin: string | undefined) {
+    const allowed = allowedOrigin(cors, origin)
+    if (!allowed) {
+        return undefined
+    }
+    const headers: { [key: string]: string } = {
+        'access-control-allow-origin': allowed,
+    }
+    if (allowed !== '*') {
+        headers.vary = 'origin'
+    }
+    if (cors.credentials && allowed !== '*') {
+        headers['access-control-allow-credentials'] = 'true'
+    }
+    return headers
+}
+
+export function corsHeaders(cors: string | CorsConfiguration, requestHeaders: Headers): Headers {
+    const config = resolveCors(cors)
+    const headers = originHeaders(config, requestHeaders.origin)
+    if (!headers) {
+        return {}
+    }
+    if (config.exposedHeaders?.length) {
+        headers['access-control-expose-headers'] = config.exposedHeaders.join(', ')
+    }
+    return headers
+}
+
+export function preflightHeaders(
+    cors: string | CorsConfiguration,
+    requestHeaders: Headers,
+    methods: readonly string[],
+): Headers {
+    const config = resolveCors(cors)
+    const headers = originHeaders(config, requestHeaders.origin)
+    if (!headers) {
+        return {}
+    }
+    headers['access-control-allow-methods'] = methods.join(', ')
+    const allowedHeaders =
+        config.allowedHeaders?.join(', ') ?? requestHeaders['access-control-request-headers']
+    if (allowedHeaders) {
+        headers['access-control-allow-headers'] = allowedHeaders
+    }
+    if (config.maxAge !== undefined) {
+        headers['access-control-max-age'] = config.maxAge.toString()
+    }
+    return headers
+}
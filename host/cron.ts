@@ -0,0 +1,147 @@
+export type Cron = {
+    readonly minutes: ReadonlySet<number>
+    readonly hours: ReadonlySet<number>
+    readonly daysOfMonth: ReadonlySet<number>
+    readonly months: ReadonlySet<number>
+    readonly daysOfWeek: ReadonlySet<number>
+    readonly anyDayOfMonth: boolean
+    readonly anyDayOfWeek: boolean
+}
+
+const monthNames = [
+    'JAN',
+    'FEB',
+    'MAR',
+    'APR',
+    'MAY',
+    'JUN',
+    'JUL',
+    'AUG',
+    'SEP',
+    'OCT',
+    'NOV',
+    'DEC',
+]
+const dayNames = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT']
+
+/**
+ * Parses a five-field cron expression (minute, hour, day of month, month, day of week) evaluated
+ * in UTC. Fields support `*`, `?`, lists, ranges, steps and three-letter month and day names.
+ */
+export function parseCron(expression: string): Cron {
+    const fields = expression.trim().split(/\s+/u)
+    if (fields.length !== 5) {
+        throw new Error(`Cron expression ${expression} should have five fields.`)
+    }
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields as [
+        string,
+        string,
+        string,
+        string,
+        string,
+    ]
+    return {
+        minutes: parseField(expression, minutes, 0, 59),
+        hours: parseField(expression, hours, 0, 23),
+        daysOfMonth: parseField(expression, daysOfMonth, 1, 31),
+        months: parseField(expression, months, 1, 12, monthNames),
+        daysOfWeek: new Set(
+            [...parseField(expression, daysOfWeek, 0, 7, dayNames)].map(day => day % 7),
+        ),
+        anyDayOfMonth: isAny(daysOfMonth),
+        anyDayOfWeek: isAny(daysOfWeek),
+    }
+}
+
+/**
+ * The first time after the given time the cron expression fires.
+ */
+export function nextOccurrence(cron: Cron, after: Date): Date {
+    const time = new Date(after.getTime())
+    time.setUTCSeconds(0, 0)
+    time.setUTCMinutes(time.getUTCMinutes() + 1)
+    const limit = after.getTime() + 5 * 366 * 24 * 60 * 60 * 1000
+    while (time.getTime() <= limit) {
+        if (!cron.months.has(time.getUTCMonth() + 1)) {
+            time.setUTCMonth(time.getUTCMonth() + 1, 1)
+            time.setUTCHours(0, 0)
+        } else if (!matchesDay(cron, time)) {
+            time.setUTCDate(time.getUTCDate() + 1)
+            time.setUTCHours(0, 0)
+        } else if (!cron.hours.has(time.getUTCHours())) {
+            time.setUTCHours(time.getUTCHours() + 1, 0)
+        } else if (!cron.minutes.has(time.getUTCMinutes())) {
+            time.setUTCMinutes(time.getUTCMinutes() + 1)
+        } else {
+            return time
+        }
+    }
+    throw new Error('Cron expression never fires.')
+}
+
+function matchesDay(cron: Cron, time: Date) {
+    const dayOfMonth = cron.daysOfMonth.has(time.getUTCDate())
+    const dayOfWeek = cron.daysOfWeek.has(time.getUTCDay())
+    if (cron.anyDayOfMonth || cron.anyDayOfWeek) {
+        return dayOfMonth && dayOfWeek
+    }
+    return dayOfMonth || dayOfWeek
+}
+
+function isAny(field: string) {
+    return field === '*' || field === '?'
+}
+
+function parseField(
+    expression: string,
+    field: string,
+    min: number,
+    max: number,
+    names?: string[],
+): Set<number> {
+    const values = new Set<number>()
+    for (const part of field.split(',')) {
+        const [range, stepText] = part.split('/') as [string, string | undefined]
+        const step = stepText === undefined ? 1 : Number(stepText)
+        if (!Number.isInteger(step) || step < 1) {
+            throw new Error(`Invalid step ${part} in cron expression ${expression}.`)
+        }
+        let from: number
+        let to: number
+        if (isAny(range)) {
+            from = min
+            to = max
+        } else {
+            const [first, last] = range.split('-') as [string, string | undefined]
+            from = parseValue(expression, first, min, max, names)
+            to =
+                last === undefined
+                    ? stepText === undefined
+                        ? from
+                        : max
+                    : parseValue(expression, last, min, max, names)
+            if (to < from) {
+                throw new Error(`Invalid range ${range} in cron expression ${expression}.`)
+            }
+        }
+        for (let value = from; value <= to; value += step) {
+            values.add(value)
+        }
+    }
+    return values
+}
+
+function parseValue(
+    expression: string,
+    text: string,
+    min: number,
+    max: number,
+    names: string[] | undefined,
+) {
+    const nameIndex = names?.indexOf(text.toUpperCase()) ?? -1
+    const value = nameIndex === -1 ? Number(text) : nameIndex + min
+    if (text === '' || !Number.isInteger(value) || value < min || value > max) {
+        throw new Error(`Invalid value ${text} in cron expression ${expression}.`)
+    }
+    return value
+}
@@ -0,0 +1,48 @@
+import { Context, Json, measure } from '../context.js'
+import type { Event } from '../event.js'
+import { BufferedEvent, ClientInfo, RootLogger } from './context.js'
+import type { EventHandler } from './registry.js'
+
+export async function executeEvent(
+    log: RootLogger,
+    context: Omit<Context, 'log'>,
+    handler: EventHandler,
+    event: BufferedEvent,
+    success: () => Promise<unknown>,
+): Promise<void> {
+    const includeBodyInLogs = !handler.config?.excludeBodyFromLogs
+    log = log.enrichReserved({
+        meta: context.meta,
+        event: {
+            topic: handler.topic,
+            ...event.meta,
+            eventTime: event.eventTime,
+            ...(includeBodyInLogs && { json: event.json }),
+        },
+    })
+    log.trace('Event BEGIN')
+    try {
+        const ev: Event = {
+            topic: handler.topic,
+            type: event.meta.type,
+            subject: event.meta.subject,
+            data: event.json === undefined ? undefined : (JSON.parse(event.json) as Json),
+            messageId: event.meta.id,
+            timestamp: event.eventTime,
+        }
+        await measure(log, 'execution', () => handler.entry({ ...context, log }, ev))
+        log.debug('Event END')
+        await success()
+    } catch (e) {
+        log.error('Event END', e)
+        throw e
+    }
+}
+
+/**
+ * The client information of the operation that emitted the event, so that the operation id and
+ * client id flow through to the context of the consumer.
+ */
+export function clientFromEvent(event: BufferedEvent): ClientInfo {
+    return event.ids
+}
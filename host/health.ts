@@ -0,0 +1,96 @@
+import { performance } from 'node:perf_hooks'
+import type { AbortSignal, Context } from '../context.js'
+import type { FullResult, HealthCheckResult, HealthReport } from '../http.js'
+import type { HealthCheckHandler, HttpHandler } from './registry.js'
+
+const healthPath = '/health'
+const defaultTimeout = 5
+
+export function isHealthPath(uri: string) {
+    return uri === healthPath || uri.startsWith(`${healthPath}?`)
+}
+
+/**
+ * A handler running all health checks concurrently and reporting their outcome.
+ */
+export function healthHandler(method: 'GET' | 'HEAD', checks: HealthCheckHandler[]): HttpHandler {
+    const meta = checks[0]?.meta
+    return {
+        meta,
+        config: meta?.config,
+        method,
+        pathPattern: healthPath,
+        pathRegExp: /^\/health(\?.*)?$/u,
+        pathParameters: [],
+        entry: context => runHealthChecks(context, checks),
+    }
+}
+
+async function runHealthChecks(
+    context: Context,
+    checks: HealthCheckHandler[],
+): Promise<FullResult> {
+    const results = await Promise.all(
+        checks.map(async check => [check.name, await runHealthCheck(context, check)] as const),
+    )
+    const healthy = results.every(([, result]) => result.status === 'pass')
+    const report: HealthReport = {
+        status: healthy ? 'pass' : 'fail',
+        checks: Object.fromEntries(results),
+    }
+    return {
+        status: healthy ? 200 : 503,
+        headers: { 'cache-control': 'no-store' },
+        body: report,
+    }
+}
+
+async function runHealthCheck(
+    context: Context,
+    check: HealthCheckHandler,
+): Promise<HealthCheckResult> {
+    const timeout = check.config?.timeout ?? defaultTimeout
+    const controller = new AbortController()
+    const abort = () => controller.abort()
+    context.signal.addEventListener('abort', abort, { once: true })
+    let timeoutHandle: ReturnType<typeof setTimeout> | undefined
+    let timedOut = false
+    const start = performance.now()
+    try {
+        await Promise.race([
+            (async () =>
+                await check.entry({
+                    ...context,
+                    log: context.log.enrich({ healthCheck: check.name }),
+                    signal: controller.signal as AbortSignal,
+                }))(),
+            new Promise<never>((_, reject) => {
+                timeoutHandle = setTimeout(() => {
+                    timedOut = true
+                    controller.abort()
+                    reject(new Error(`Timed out after ${timeout} seconds.`))
+                }, timeout * 1000)
+            }),
+        ])
+        return { status: 'pass', latency: elapsed(start) }
+    } catch (e) {
+        const latency = elapsed(start)
+        context.log.warn(`Health check ${check.name} failed.`, e, { latency })
+        // The report is public, so it only has the message if the check says it is safe.
+        const error = timedOut
+            ? 'timeout'
+            : check.config?.exposeError
+            ? e instanceof Error
+                ? e.message
+                : String(e)
+            : 'failed'
+        return { status: 'fail', latency, error }
+    } finally {
+        clearTimeout(timeoutHandle)
+        context.signal.removeEventListener('abort', abort)
+    }
+}
+
+function elapsed(start: number) {
+    return Math.round(performance.now() - start)
+}
@@ -1,25 +1,53 @@
-import { parse, UrlWithParsedQuery } from 'node:url'
-import { Context, measure } from '../context.js'
-import type { Json, ResponseHeaders, Result } from '../http.js'
+import { STATUS_CODES } from 'node:http'
+import { Context, Logger, measure } from '../context.js'
+import { BadRequest, HttpError, InternalServerError, PayloadTooLarge } from '../errors.js'
+import type {
+    Handler,
+    HttpRequest,
+    Json,
+    Middleware,
+    Query,
+    RequestBody,
+    ResponseHeaders,
+    Result,
+} from '../http.js'
+import { authenticate, authorize } from './auth.js'
+import { parseBody } from './body.js'
+import { compressResponse } from './compression.js'
+import { conditionalResponse } from './conditional.js'
 import { ClientInfo, RootLogger } from './context.js'
-import type { HttpHandler } from './registry.js'
+import { parseCookies, redactCookies, redactSetCookie, serializeCookie } from './cookies.js'
+import { corsHeaders } from './cors.js'
+import { beginIdempotentRequest, IdempotentRequest } from './idempotency.js'
+import { bodySizeLimits, requestBodySize, responseBodySize } from './limits.js'
+import { createQuery, queryObject } from './query.js'
+import { enforceRateLimit } from './rate-limit.js'
+import { getMiddleware, HttpHandler } from './registry.js'
+import { validateRequest } from './validation.js'
 
 export type Response = {
     headers: { readonly [key: string]: string }
     status: number
-    body?: string | Buffer
+    body?: string | Buffer | AsyncIterable<string | Buffer>
     isBase64Encoded?: boolean
+    /**
+     * Headers sent more than once, such as `set-cookie`, in addition to `headers`.
+     */
+    multiValueHeaders?: { readonly [key: string]: readonly string[] }
 }
 
-type RequestOptions = BodylessRequestOptions | StringRequestOptions | JsonRequestOptions
+export type BufferedResponse = Omit<Response, 'body'> & { body?: string | Buffer }
+
+export type RequestOptions = BodylessRequestOptions | RawRequestOptions | JsonRequestOptions
 
 type BodylessRequestOptions = {
     uri: string
     headers?: { readonly [key: string]: string }
 }
 
-type StringRequestOptions = BodylessRequestOptions & {
-    body: string
+type RawRequestOptions = BodylessRequestOptions & {
+    body: string | Buffer
+    isBase64Encoded?: boolean
 }
 
 type JsonRequestOptions = BodylessRequestOptions & {
@@ -37,9 +65,11 @@ export async function executeRequest(
     const isShallow =
         context.env.SHALLOW_KEY && options.headers?.['x-shallow'] === context.env.SHALLOW_KEY
     const includeBodyInLogs = !handler.config?.excludeBodyFromLogs
-    const logRequest = includeBodyInLogs
-        ? { method: handler.method, ...options }
-        : withoutRequestBody({ method: handler.method, ...options })
+    const logRequest = withoutCookieValues(
+        includeBodyInLogs
+            ? withLoggableBody({ method: handler.method, ...options })
+            : withoutRequestBody({ method: handler.method, ...options }),
+    )
     log = log.enrichReserved({ meta: context.meta, request: logRequest })
     if (isShallow) {
         log.trace('Shallow request')
@@ -49,33 +79,111 @@ export async function executeRequest(
         }
     }
     log.trace('Request BEGIN')
+    let idempotent: IdempotentRequest | undefined
     try {
-        let parsedUrl: UrlWithParsedQuery & { pathStepAt: (index: number) => string }
-        let pathSteps: string[]
+        const limits = bodySizeLimits(handler.config)
+        const requestSize = requestBodySize(options)
+        if (requestSize > limits.requestBodySize) {
+            throw new PayloadTooLarge(
+                `Request body of ${requestSize} bytes exceeds the limit of ${limits.requestBodySize} bytes.`,
+            )
+        }
+        const principal = await authenticate(
+            handler.config?.auth,
+            context.env,
+            options.headers ?? {},
+        )
+        if (principal) {
+            context = { ...context, principal }
+            log = log.enrichReserved({ client: { ...context.client, subject: principal.subject } })
+        }
+        authorize(handler.config?.auth, principal)
+        idempotent = await beginIdempotentRequest(context, handler, options)
+        if (idempotent?.replay) {
+            const { replay } = idempotent
+            log = log.enrichReserved({
+                response: {
+                    status: replay.status,
+                    headers: withoutSetCookieValues(replay.headers),
+                },
+            })
+            log.debug('Request END', undefined, { idempotentReplay: true })
+            return replay
+        }
+        let parsedUrl: HttpRequest['url']
+        let query: Query
+        let params: { readonly [name: string]: string }
+        let cookies: { readonly [name: string]: string }
         const req = {
             rawUrl: options.uri,
             get url() {
-                return (parsedUrl ??= {
-                    ...parse(this.rawUrl, true),
-                    pathStepAt: (index: number) => {
-                        const steps = (pathSteps ??= parsedUrl.pathname?.split('/') ?? [])
-                        const step = steps[index + 1]
-                        if (!step) {
-                            throw new RangeError(`Path does not have a step at index ${index}.`)
-                        }
-                        return step
-                    },
-                })
+                return (parsedUrl ??= parseUrl(handler, this.rawUrl))
+            },
+            get query() {
+                return (query ??= createQuery(this.url.searchParams))
             },
-            body: requestBody(options),
+            get params() {
+                return (params ??= pathParameters(handler, this.rawUrl))
+            },
+            get cookies() {
+                return (cookies ??= parseCookies(this.headers.cookie))
+            },
+            body: requestBody(options, handler),
             headers: options.headers ?? {},
         }
 
+        const rateLimitHeaders = await enforceRateLimit({ ...context, log }, handler, req)
         const result = await measure(log, 'execution', () =>
-            handler.entry({ ...context, log }, req),
+            runMiddleware(
+                handler.preflight
+                    ? []
+                    : [...getMiddleware(), ...(handler.config?.middleware ?? [])],
+                (ctx, request) => {
+                    validateRequest(handler, request)
+                    return handler.entry(ctx, request)
+                },
+                { ...context, log },
+                req,
+            ),
         )
 
-        const response = resultToResponse(result, includeBodyInLogs)
+        const toResponse = (r: Result) =>
+            withCors(
+                handler,
+                options,
+                bodylessIfHead(
+                    handler,
+                    conditionalResponse(
+                        handler.config,
+                        handler.method,
+                        options.headers ?? {},
+                        withCookies(r, resultToResponse(r, includeBodyInLogs)),
+                    ),
+                ),
+            )
+        const uncompressed = toResponse(result)
+        let response = compressResponse(handler.config, options.headers ?? {}, uncompressed)
+        const responseSize = responseBodySize(response)
+        if (responseSize > limits.responseBodySize) {
+            response = compressResponse(
+                handler.config,
+                options.headers ?? {},
+                toResponse(
+                    await offloadResponse(
+                        { ...context, log },
+                        handler,
+                        uncompressed,
+                        responseSize,
+                        limits.responseBodySize,
+                    ),
+                ),
+            )
+        }
+
+        if (idempotent) {
+            response = await idempotent.complete(response)
+        }
+        response.headers = { ...rateLimitHeaders, ...response.headers }
 
         if (context.signal.aborted) {
             response.headers = {
@@ -87,7 +195,8 @@ export async function executeRequest(
         log = log.enrichReserved({
             response: {
                 status: response.status,
-                headers: response.headers,
+                headers: withoutSetCookieValues(response.headers),
+                multiValueHeaders: withoutSetCookieValues(response.multiValueHeaders),
                 body: response.logBody,
             },
         })
@@ -96,16 +205,47 @@ export async function executeRequest(
         } else {
             log.debug('Request END')
         }
-
-        if (response.status < 300) {
+        if (isStream(response.body)) {
+            // Success handlers run once the whole body has been sent, unless the stream ended because
+            // the client went away or the handler timed out.
+            response.body = countBytes(log, response.body, async () => {
+                if (response.status < 300 && !context.signal.aborted) {
+                    await success()
+                }
+            })
+        } else if (response.status < 300) {
             await success()
         }
         return response
     } catch (e) {
         try {
-            const response = errorToResponse(e)
-            log = log.enrichReserved({ response })
-            if (response.status >= 500) {
+            await idempotent?.release()
+        } catch (releaseError) {
+            log.warn('Could not release idempotency key.', releaseError)
+        }
+        try {
+            const response = compressResponse(
+                handler.config,
+                options.headers ?? {},
+                withCors(
+                    handler,
+                    options,
+                    bodylessIfHead(handler, errorToResponse(e, context.operationId)),
+                ),
+            )
+            log = log.enrichReserved({
+                response: {
+                    ...response,
+                    headers: withoutSetCookieValues(response.headers),
+                },
+            })
+            if (e instanceof HttpError) {
+                if (e.statusCode >= 500) {
+                    log.error('Request END', e)
+                } else {
+                    log.debug('Request END', undefined, { code: e.code })
+                }
+            } else if (response.status >= 500) {
                 log.error('Request END', e)
             } else {
                 log.debug('Request END')
@@ -131,6 +271,21 @@ export async function executeRequest(
     }
 }
 
+async function runMiddleware(
+    middleware: readonly Middleware[],
+    entry: Handler,
+    context: Context,
+    request: HttpRequest,
+): Promise<Result> {
+    const [first, ...rest] = middleware
+    if (!first) {
+        return await entry(context, request)
+    }
+    return await first(context, request, (nextRequest = request, nextContext = context) =>
+        runMiddleware(rest, entry, nextContext, nextRequest),
+    )
+}
+
 function resultToResponse(result: Result, withLogBody: boolean): Response & { logBody?: unknown } {
     if (!result) {
         return {
@@ -162,6 +317,12 @@ function resultToResponse(result: Result, withLogBody: boolean): Response & { lo
                 logBody,
                 isBase64Encoded: result.isBase64Encoded,
             }
+        } else if (isStream(result.body)) {
+            return {
+                headers: withContentType(result.headers, 'application/octet-stream'),
+                status: result.status ?? 200,
+                body: result.body,
+            }
         } else if (Buffer.isBuffer(result.body)) {
             const logBody = withLogBody ? result.body.toString('base64') : undefined
             return {
@@ -183,24 +344,230 @@ function resultToResponse(result: Result, withLogBody: boolean): Response & { lo
     }
 }
 
+async function offloadResponse(
+    context: Context,
+    handler: HttpHandler,
+    response: Response,
+    size: number,
+    limit: number,
+): Promise<Result> {
+    const offload = handler.config?.limits?.offloadResponse
+    if (!offload) {
+        throw new InternalServerError(
+            `Response body of ${size} bytes exceeds the limit of ${limit} bytes.`,
+            { code: 'response-too-large' },
+        )
+    }
+    context.log.info('Offloading response.', undefined, { size, limit })
+    const { body } = response
+    return await offload(context, {
+        status: response.status,
+        headers: { ...response.headers },
+        body:
+            typeof body === 'string'
+                ? Buffer.from(body, response.isBase64Encoded ? 'base64' : 'utf-8')
+                : (body as Buffer),
+    })
+}
+
+function withCookies<T extends Response>(result: Result, response: T): T {
+    if (!result || typeof result === 'string' || !result.cookies?.length) {
+        return response
+    }
+    return {
+        ...response,
+        multiValueHeaders: {
+            ...response.multiValueHeaders,
+            'set-cookie': result.cookies.map(serializeCookie),
+        },
+    }
+}
+
+function isStream(body: unknown): body is AsyncIterable<string | Buffer> {
+    return typeof body === 'object' && body !== null && Symbol.asyncIterator in body
+}
+
+async function* countBytes(
+    log: Logger,
+    body: AsyncIterable<string | Buffer>,
+    onEnd: () => Promise<void>,
+) {
+    let bytes = 0
+    let failed = false
+    try {
+        for await (const chunk of body) {
+            bytes += Buffer.byteLength(chunk)
+            yield chunk
+        }
+        await onEnd()
+    } catch (e) {
+        failed = true
+        log.error('Response stream END', e, { bytes })
+        throw e
+    } finally {
+        if (!failed) {
+            log.debug('Response stream END', undefined, { bytes })
+        }
+    }
+}
+
+/**
+ * Reads a streamed response body into a buffer, for hosts that cannot stream.
+ */
+export async function bufferResponse(response: Response): Promise<BufferedResponse> {
+    const { body } = response
+    if (!isStream(body)) {
+        return { ...response, body }
+    }
+    const chunks: Buffer[] = []
+    for await (const chunk of body) {
+        chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk)
+    }
+    return { ...response, body: Buffer.concat(chunks) }
+}
+
+/**
+ * Parses the URI under a fixed origin, as the `host` header is up to the client. Dot segments are
+ * rejected rather than resolved, so the `pathname` is the path that was routed.
+ */
+function parseUrl(handler: HttpHandler, uri: string): HttpRequest['url'] {
+    uri = withUnescapedRemainder(handler, uri)
+    const path = uri.split('?')[0] ?? ''
+    if (!path.startsWith('/') || path.split(/[/\\]/u).some(isDotSegment)) {
+        throw new BadRequest('Malformed URL.')
+    }
+    let url: URL
+    try {
+        url = new URL(`http://localhost${uri}`)
+    } catch {
+        throw new BadRequest('Malformed URL.')
+    }
+    const steps = path.split('/')
+    return Object.assign(url, {
+        query: queryObject(url.searchParams),
+        pathStepAt: (index: number) => {
+            const step = steps[index + 1]
+            if (!step) {
+                throw new RangeError(`Path does not have a step at index ${index}.`)
+            }
+            return step
+        },
+    })
+}
+
+function isDotSegment(step: string) {
+    return /^(\.|%2e){1,2}$/iu.test(step)
+}
+
+/**
+ * Unescapes slashes in what a trailing `**` wildcard matches, as clients generated from the OpenAPI
+ * document send the remainder as a single, escaped path parameter.
+ */
+function withUnescapedRemainder(handler: HttpHandler, uri: string) {
+    if (!handler.pathPattern.endsWith('/**')) {
+        return uri
+    }
+    const queryStart = uri.indexOf('?')
+    const path = queryStart === -1 ? uri : uri.substring(0, queryStart)
+    const steps = path.split('/')
+    const prefixLength = handler.pathPattern.split('/').length - 1
+    return (
+        [
+            ...steps.slice(0, prefixLength),
+            ...steps.slice(prefixLength).map(step => step.replace(/%2F/giu, '/')),
+        ].join('/') + (queryStart === -1 ? '' : uri.substring(queryStart))
+    )
+}
+
+function pathParameters(handler: HttpHandler, pathname: string) {
+    const groups = handler.pathRegExp.exec(pathname)?.groups ?? {}
+    try {
+        return Object.fromEntries(
+            Object.entries(groups).map(([name, value]) => [name, decodeURIComponent(value)]),
+        )
+    } catch {
+        throw new BadRequest('Malformed path parameter.')
+    }
+}
+
+function bodylessIfHead(
+    handler: HttpHandler,
+    response: Response & { logBody?: unknown },
+): Response & { logBody?: unknown } {
+    if (handler.method !== 'HEAD') {
+        return response
+    }
+    const { body, logBody, ...bodyless } = response
+    return bodyless
+}
+
+function withCors<T extends Response>(handler: HttpHandler, options: RequestOptions, response: T) {
+    const cors = handler.config?.cors
+    if (!cors) {
+        return response
+    }
+    const headers = corsHeaders(cors, options.headers ?? {})
+    const vary =
+        headers.vary && response.headers.vary
+            ? `${response.headers.vary}, ${headers.vary}`
+            : headers.vary ?? response.headers.vary
+    return {
+        ...response,
+        headers: { ...headers, ...response.headers, ...(vary && { vary }) },
+    }
+}
+
+function withLoggableBody(options: RequestOptions & { method: string }) {
+    if (hasRawBody(options) && Buffer.isBuffer(options.body)) {
+        return { ...options, body: options.body.toString('base64'), isBase64Encoded: true }
+    }
+    return options
+}
+
 function withoutRequestBody(options: RequestOptions & { method: string }) {
     if (hasJsonBody(options)) {
         const { json, ...bodyless } = options
         return bodyless
     }
-    if (hasStringBody(options)) {
+    if (hasRawBody(options)) {
         const { body, ...bodyless } = options
         return bodyless
     }
     return options
 }
 
-function requestBody(options: RequestOptions): Json | string | undefined {
+function withoutCookieValues<T extends { headers?: { readonly [key: string]: string } }>(
+    options: T,
+): T {
+    const cookie = options.headers?.cookie
+    if (cookie === undefined) {
+        return options
+    }
+    return { ...options, headers: { ...options.headers, cookie: redactCookies(cookie) } }
+}
+
+function withoutSetCookieValues<T extends string | readonly string[]>(
+    headers: { readonly [key: string]: T } | undefined,
+) {
+    const setCookie = headers?.['set-cookie']
+    if (setCookie === undefined) {
+        return headers
+    }
+    return {
+        ...headers,
+        'set-cookie':
+            typeof setCookie === 'string'
+                ? redactSetCookie(setCookie)
+                : setCookie.map(redactSetCookie),
+    }
+}
+
+function requestBody(options: RequestOptions, handler: HttpHandler): RequestBody | undefined {
     if (hasJsonBody(options)) {
         return options.json
     }
-    if (hasStringBody(options)) {
-        return options.body
+    if (hasRawBody(options)) {
+        return parseBody(options, options.headers?.['content-type'], handler.config)
     }
     return undefined
 }
@@ -209,7 +576,7 @@ function hasJsonBody(options: RequestOptions): options is JsonRequestOptions {
     return (options as { json?: unknown }).json !== undefined
 }
 
-function hasStringBody(options: RequestOptions): options is StringRequestOptions {
+function hasRawBody(options: RequestOptions): options is RawRequestOptions {
     return (options as { body?: unknown }).body !== undefined
 }
 
@@ -225,7 +592,22 @@ function withContentType(headers: ResponseHeaders | undefined, contentType: stri
     return headers
 }
 
-function errorToResponse(e: unknown): Response {
+export function errorToResponse(e: unknown, operationId: string | undefined): Response {
+    if (e instanceof HttpError) {
+        return {
+            headers: { 'content-type': 'application/problem+json', ...e.headers },
+            status: e.statusCode,
+            body: JSON.stringify({
+                ...e.extensions,
+                type: e.type,
+                title: STATUS_CODES[e.statusCode] ?? 'Error',
+                status: e.statusCode,
+                detail: e.message,
+                instance: operationId,
+                code: e.code,
+            }),
+        }
+    }
     const { body, statusCode: status } = e as { body?: unknown; statusCode?: number }
     if (typeof body === 'string') {
         return {
@@ -251,6 +633,29 @@ function errorToResponse(e: unknown): Response {
     }
 }
 
+/**
+ * Builds request options from a raw body, parsing JSON bodies unless the handler wants the raw body.
+ * Other bodies are parsed by content type when the request is executed.
+ */
+export function toRequestOptions(
+    handler: HttpHandler,
+    uri: string,
+    headers: { readonly [key: string]: string },
+    body: Buffer | undefined,
+): RequestOptions {
+    if (!body || body.length === 0) {
+        return { uri, headers }
+    }
+    if (!handler.config?.rawBody && headers['content-type']?.includes('json')) {
+        try {
+            return { uri, headers, json: JSON.parse(body.toString()) as Json }
+        } catch {
+            // Let body parsing reject the malformed body.
+        }
+    }
+    return { uri, headers, body }
+}
+
 export function clientFromHeaders(
     headers: { readonly [key: string]: string } | undefined,
 ): ClientInfo {
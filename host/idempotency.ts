@@ -0,0 +1,301 @@
+import { createHash, randomUUID } from 'node:crypto'
+import { link, mkdir, readFile, rename, stat, unlink, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { setTimeout as delay } from 'node:timers/promises'
+import type { Context } from '../context.js'
+import { BadRequest, Conflict, UnprocessableEntity } from '../errors.js'
+import type { IdempotencyRecord, IdempotencyStore, StoredResponse } from '../http.js'
+import { bufferResponse, RequestOptions, Response } from './http.js'
+import type { HttpHandler } from './registry.js'
+
+const defaultTtl = 24 * 60 * 60
+const lockRetryDelay = 10
+const staleLockAge = 10 * 1000
+
+export type IdempotentRequest = {
+    readonly replay?: Response
+    complete(response: Response): Promise<Response>
+    release(): Promise<void>
+}
+
+/**
+ * Claims the request's `idempotency-key` for the authenticated principal or, on routes without
+ * authentication, the client id, or returns the stored response of an earlier request with the
+ * same key. Throws a 409 Conflict if that request is still in progress, and a 400 Bad Request if
+ * the caller is anonymous.
+ */
+export async function beginIdempotentRequest(
+    context: Omit<Context, 'log'>,
+    handler: HttpHandler,
+    options: RequestOptions,
+): Promise<IdempotentRequest | undefined> {
+    const config = handler.config?.idempotency
+    const idempotencyKey = options.headers?.['idempotency-key']
+    if (!config || !idempotencyKey) {
+        return undefined
+    }
+    const caller = context.principal
+        ? ['principal', context.principal.subject]
+        : ['client', context.client?.id]
+    if (caller[1] === undefined) {
+        throw new BadRequest('An idempotency key requires a client id.', {
+            code: 'idempotency-key-anonymous',
+        })
+    }
+    const key = JSON.stringify([...caller, handler.method, handler.pathPattern, idempotencyKey])
+    const fingerprint = requestFingerprint(options)
+    const existing = await config.store.claim(
+        key,
+        fingerprint,
+        (handler.config?.timeout ?? 60) + 15,
+    )
+    if (existing) {
+        if (existing.fingerprint !== fingerprint) {
+            throw new UnprocessableEntity('The idempotency key was used for a different request.', {
+                code: 'idempotency-key-reused',
+            })
+        }
+        if (!existing.response) {
+            throw new Conflict('A request with the same idempotency key is in progress.', {
+                code: 'idempotency-key-in-use',
+            })
+        }
+        return {
+            replay: fromStoredResponse(existing.response),
+            complete: response => Promise.resolve(response),
+            release: () => Promise.resolve(),
+        }
+    }
+    return {
+        complete: async response => {
+            if (response.status >= 500) {
+                await config.store.release(key)
+                return response
+            }
+            const buffered = await bufferResponse(response)
+            await config.store.complete(
+                key,
+                { fingerprint, response: toStoredResponse(buffered) },
+                config.ttl ?? defaultTtl,
+            )
+            return buffered
+        },
+        release: () => config.store.release(key),
+    }
+}
+
+function requestFingerprint(options: RequestOptions) {
+    const hash = createHash('sha256').update(options.uri)
+    if ('json' in options) {
+        hash.update(JSON.stringify(options.json))
+    } else if ('body' in options) {
+        hash.update(options.body)
+    }
+    return hash.digest('base64url')
+}
+
+/**
+ * The response to store, without the cookies set for the first caller, which may be sessions.
+ */
+function toStoredResponse(response: Awaited<ReturnType<typeof bufferResponse>>): StoredResponse {
+    const { body } = response
+    return {
+        status: response.status,
+        headers: withoutSetCookie(response.headers),
+        multiValueHeaders:
+            response.multiValueHeaders && withoutSetCookie(response.multiValueHeaders),
+        ...(Buffer.isBuffer(body)
+            ? { body: body.toString('base64'), isBase64Encoded: true }
+            : { body, isBase64Encoded: response.isBase64Encoded }),
+    }
+}
+
+function withoutSetCookie<T>(headers: { readonly [key: string]: T }) {
+    return Object.fromEntries(
+        Object.entries(headers).filter(([key]) => key.toLowerCase() !== 'set-cookie'),
+    )
+}
+
+function fromStoredResponse(stored: StoredResponse): Response {
+    return {
+        status: stored.status,
+        headers: { ...stored.headers, 'idempotent-replayed': 'true' },
+        multiValueHeaders: stored.multiValueHeaders,
+        body: stored.body,
+        isBase64Encoded: stored.isBase64Encoded,
+    }
+}
+
+/**
+ * Keeps idempotency records in the memory of this process. Suitable for local development and
+ * single-instance deployments.
+ */
+export class MemoryIdempotencyStore implements IdempotencyStore {
+    readonly #records = new Map<string, { record: IdempotencyRecord; expires: number }>()
+
+    claim(key: string, fingerprint: string, ttl: number) {
+        const existing = this.#records.get(key)
+        if (existing && existing.expires > Date.now()) {
+            return Promise.resolve(existing.record)
+        }
+        this.#records.set(key, { record: { fingerprint }, expires: Date.now() + ttl * 1000 })
+        return Promise.resolve(undefined)
+    }
+
+    complete(key: string, record: IdempotencyRecord, ttl: number) {
+        this.#records.set(key, { record, expires: Date.now() + ttl * 1000 })
+        this.#purge()
+        return Promise.resolve()
+    }
+
+    release(key: string) {
+        this.#records.delete(key)
+        return Promise.resolve()
+    }
+
+    #purge() {
+        const now = Date.now()
+        for (const [key, { expires }] of this.#records) {
+            if (expires <= now) {
+                this.#records.delete(key)
+            }
+        }
+    }
+}
+
+/**
+ * Keeps idempotency records as files in a directory, shared by all processes using it.
+ */
+export class FileIdempotencyStore implements IdempotencyStore {
+    readonly #directory: string
+
+    constructor(directory: string) {
+        this.#directory = directory
+    }
+
+    async claim(
+        key: string,
+        fingerprint: string,
+        ttl: number,
+    ): Promise<IdempotencyRecord | undefined> {
+        await mkdir(this.#directory, { recursive: true })
+        const path = this.#path(key)
+        const temporary = this.#temporaryPath(path)
+        await writeFile(
+            temporary,
+            JSON.stringify({ record: { fingerprint }, expires: Date.now() + ttl * 1000 }),
+        )
+        try {
+            for (;;) {
+                try {
+                    await link(temporary, path)
+                    return undefined
+                } catch (e) {
+                    if ((e as { code?: string }).code !== 'EEXIST') {
+                        throw e
+                    }
+                }
+                const existing = await this.#read(path)
+                if (existing && existing.expires > Date.now()) {
+                    return existing.record
+                }
+                if (existing && (await this.#takeOver(path, temporary))) {
+                    return undefined
+                }
+            }
+        } finally {
+            await this.#remove(temporary)
+        }
+    }
+
+    /**
+     * Replaces an expired claim while holding a lock file, so that only one process takes it over.
+     * Returns false if another process holds the lock or claimed the key first.
+     */
+    async #takeOver(path: string, temporary: string) {
+        const lock = `${path}.lock`
+        try {
+            await writeFile(lock, '', { flag: 'wx' })
+        } catch (e) {
+            if ((e as { code?: string }).code !== 'EEXIST') {
+                throw e
+            }
+            await this.#removeStaleLock(lock)
+            await delay(lockRetryDelay)
+            return false
+        }
+        try {
+            const existing = await this.#read(path)
+            if (existing && existing.expires > Date.now()) {
+                return false
+            }
+            await this.#remove(path)
+            try {
+                await link(temporary, path)
+                return true
+            } catch (e) {
+                if ((e as { code?: string }).code !== 'EEXIST') {
+                    throw e
+                }
+                return false
+            }
+        } finally {
+            await this.#remove(lock)
+        }
+    }
+
+    async #removeStaleLock(lock: string) {
+        try {
+            if ((await stat(lock)).mtimeMs < Date.now() - staleLockAge) {
+                await this.#remove(lock)
+            }
+        } catch (e) {
+            if ((e as { code?: string }).code !== 'ENOENT') {
+                throw e
+            }
+        }
+    }
+
+    async complete(key: string, record: IdempotencyRecord, ttl: number) {
+        const path = this.#path(key)
+        const temporary = this.#temporaryPath(path)
+        await writeFile(temporary, JSON.stringify({ record, expires: Date.now() + ttl * 1000 }))
+        await rename(temporary, path)
+    }
+
+    async release(key: string) {
+        await this.#remove(this.#path(key))
+    }
+
+    #path(key: string) {
+        return join(this.#directory, `${createHash('sha256').update(key).digest('hex')}.json`)
+    }
+
+    #temporaryPath(path: string) {
+        return `${path}.${randomUUID()}.tmp`
+    }
+
+    async #read(path: string) {
+        try {
+            return JSON.parse(await readFile(path, 'utf-8')) as {
+                record: IdempotencyRecord
+                expires: number
+            }
+        } catch (e) {
+            if ((e as { code?: string }).code !== 'ENOENT') {
+                throw e
+            }
+            return undefined
+        }
+    }
+
+    async #remove(path: string) {
+        try {
+            await unlink(path)
+        } catch (e) {
+            if ((e as { code?: string }).code !== 'ENOENT') {
+                throw e
+            }
+        }
+    }
+}
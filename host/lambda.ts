@@ -0,0 +1,293 @@
+import { randomUUID } from 'node:crypto'
+import { Environment } from '../context.js'
+import { ClientInfo, createContext, EventTransport, LogTransport } from './context.js'
+import {
+    bufferResponse,
+    BufferedResponse,
+    clientFromHeaders,
+    executeRequest,
+    toRequestOptions,
+} from './http.js'
+import { routeHttpRequest } from './registry.js'
+
+type Headers = { readonly [key: string]: string | undefined } | null | undefined
+type MultiValueHeaders =
+    | { readonly [key: string]: readonly string[] | undefined }
+    | null
+    | undefined
+
+/**
+ * An API Gateway REST API (payload format 1.0) proxy event.
+ */
+export type ApiGatewayV1Event = {
+    readonly version?: '1.0'
+    readonly httpMethod: string
+    readonly path: string
+    readonly headers?: Headers
+    readonly multiValueHeaders?: MultiValueHeaders
+    readonly queryStringParameters?: Headers
+    readonly multiValueQueryStringParameters?: MultiValueHeaders
+    readonly body?: string | null
+    readonly isBase64Encoded?: boolean
+    readonly requestContext?: {
+        readonly requestId?: string
+        readonly identity?: {
+            readonly sourceIp?: string
+            readonly userAgent?: string | null
+        }
+    }
+}
+
+/**
+ * An API Gateway HTTP API (payload format 2.0) or Lambda Function URL event.
+ */
+export type ApiGatewayV2Event = {
+    readonly version: '2.0'
+    readonly rawPath: string
+    readonly rawQueryString?: string
+    readonly cookies?: readonly string[]
+    readonly headers?: Headers
+    readonly body?: string
+    readonly isBase64Encoded?: boolean
+    readonly requestContext: {
+        readonly requestId?: string
+        readonly http: {
+            readonly method: string
+            readonly sourceIp?: string
+            readonly userAgent?: string
+        }
+    }
+}
+
+export type ApiGatewayEvent = ApiGatewayV1Event | ApiGatewayV2Event
+
+export type ApiGatewayV1Result = {
+    statusCode: number
+    headers: { [key: string]: string }
+    multiValueHeaders: { [key: string]: string[] }
+    body: string
+    isBase64Encoded: boolean
+}
+
+export type ApiGatewayV2Result = {
+    statusCode: number
+    headers: { [key: string]: string }
+    cookies: string[]
+    body: string
+    isBase64Encoded: boolean
+}
+
+export type ApiGatewayOptions = {
+    readonly loggers: LogTransport[]
+    readonly eventTransport: EventTransport
+    readonly timeouts: { default: number; cap?: number }
+    readonly environment?: Environment
+    /**
+     * A boolean indicating whether to rethrow errors resulting in 500 Internal Server Error.
+     * @default true
+     */
+    readonly rethrow?: boolean
+}
+
+export type ApiGatewayRequest = {
+    method: string
+    uri: string
+    headers: { readonly [key: string]: string }
+    body: Buffer | undefined
+    client: ClientInfo
+}
+
+function isV2(event: ApiGatewayEvent): event is ApiGatewayV2Event {
+    return event.version === '2.0'
+}
+
+/**
+ * Converts an API Gateway or Function URL event to a method, URI, lower-cased headers, body and
+ * client information. The client IP comes from the request context rather than from headers.
+ */
+export function fromApiGatewayEvent(event: ApiGatewayEvent): ApiGatewayRequest {
+    const body =
+        event.body === undefined || event.body === null
+            ? undefined
+            : Buffer.from(event.body, event.isBase64Encoded ? 'base64' : 'utf-8')
+    if (isV2(event)) {
+        const headers = lowerCaseHeaders(event.headers, undefined)
+        if (event.cookies?.length) {
+            headers.cookie = event.cookies.join('; ')
+        }
+        return {
+            method: event.requestContext.http.method,
+            uri: event.rawQueryString ? `${event.rawPath}?${event.rawQueryString}` : event.rawPath,
+            headers,
+            body,
+            client: clientFromApiGateway(
+                headers,
+                event.requestContext.requestId,
+                event.requestContext.http.sourceIp,
+                event.requestContext.http.userAgent,
+            ),
+        }
+    }
+    const headers = lowerCaseHeaders(event.headers, event.multiValueHeaders)
+    const query = queryString(event.queryStringParameters, event.multiValueQueryStringParameters)
+    return {
+        method: event.httpMethod,
+        uri: query ? `${event.path}?${query}` : event.path,
+        headers,
+        body,
+        client: clientFromApiGateway(
+            headers,
+            event.requestContext?.requestId,
+            event.requestContext?.identity?.sourceIp,
+            event.requestContext?.identity?.userAgent ?? undefined,
+        ),
+    }
+}
+
+export function toApiGatewayV1Result(response: BufferedResponse): ApiGatewayV1Result {
+    const { headers, multiValueHeaders } = splitHeaders(response)
+    return {
+        statusCode: response.status,
+        headers,
+        multiValueHeaders,
+        ...resultBody(response),
+    }
+}
+
+export function toApiGatewayV2Result(response: BufferedResponse): ApiGatewayV2Result {
+    const { headers, multiValueHeaders } = splitHeaders(response)
+    const { 'set-cookie': cookies, ...rest } = multiValueHeaders
+    for (const [key, values] of Object.entries(rest)) {
+        headers[key] = values.join(', ')
+    }
+    return {
+        statusCode: response.status,
+        headers,
+        cookies: cookies ?? [],
+        ...resultBody(response),
+    }
+}
+
+/**
+ * Handles an API Gateway or Function URL event with the registered HTTP handlers.
+ */
+export async function handleApiGatewayEvent(
+    event: ApiGatewayV1Event,
+    options: ApiGatewayOptions,
+): Promise<ApiGatewayV1Result>
+export async function handleApiGatewayEvent(
+    event: ApiGatewayV2Event,
+    options: ApiGatewayOptions,
+): Promise<ApiGatewayV2Result>
+export async function handleApiGatewayEvent(
+    event: ApiGatewayEvent,
+    options: ApiGatewayOptions,
+): Promise<ApiGatewayV1Result | ApiGatewayV2Result> {
+    const toResult = isV2(event) ? toApiGatewayV2Result : toApiGatewayV1Result
+    const request = fromApiGatewayEvent(event)
+    const route = routeHttpRequest(request.method, request.uri)
+    if (!route.handler) {
+        return toResult({ status: route.status, headers: route.headers })
+    }
+    const { log, context, success, flush } = createContext(
+        request.client,
+        options.loggers,
+        options.eventTransport,
+        options.timeouts,
+        new AbortController(),
+        { ...route.handler.meta, config: route.handler.config },
+        options.environment,
+    )
+    try {
+        return toResult(
+            await bufferResponse(
+                await executeRequest(
+                    log,
+                    context,
+                    route.handler,
+                    toRequestOptions(route.handler, request.uri, request.headers, request.body),
+                    success,
+                    options.rethrow,
+                ),
+            ),
+        )
+    } finally {
+        await flush()
+    }
+}
+
+function clientFromApiGateway(
+    headers: { readonly [key: string]: string },
+    requestId: string | undefined,
+    sourceIp: string | undefined,
+    userAgent: string | undefined,
+): ClientInfo {
+    const client = clientFromHeaders(headers)
+    return {
+        ...client,
+        operationId: client.operationId ?? requestId ?? randomUUID(),
+        clientIp: sourceIp ?? client.clientIp,
+        userAgent: headers['x-forwarded-for-user-agent'] ?? userAgent ?? client.userAgent,
+    }
+}
+
+function lowerCaseHeaders(headers: Headers, multiValueHeaders: MultiValueHeaders) {
+    const result: { [key: string]: string } = {}
+    for (const [key, value] of Object.entries(headers ?? {})) {
+        if (value !== undefined) {
+            result[key.toLowerCase()] = value
+        }
+    }
+    for (const [key, values] of Object.entries(multiValueHeaders ?? {})) {
+        if (values?.length) {
+            const name = key.toLowerCase()
+            result[name] = values.join(name === 'cookie' ? '; ' : ', ')
+        }
+    }
+    return result
+}
+
+function queryString(single: Headers, multi: MultiValueHeaders) {
+    const params = new URLSearchParams()
+    if (multi) {
+        for (const [key, values] of Object.entries(multi)) {
+            for (const value of values ?? []) {
+                params.append(key, value)
+            }
+        }
+    } else {
+        for (const [key, value] of Object.entries(single ?? {})) {
+            if (value !== undefined) {
+                params.append(key, value)
+            }
+        }
+    }
+    return params.toString()
+}
+
+function splitHeaders(response: BufferedResponse) {
+    const headers: { [key: string]: string } = {}
+    const multiValueHeaders: { [key: string]: string[] } = {}
+    for (const [key, value] of Object.entries(response.headers)) {
+        if (key.toLowerCase() === 'set-cookie') {
+            multiValueHeaders['set-cookie'] = [value]
+        } else {
+            headers[key] = value
+        }
+    }
+    for (const [key, values] of Object.entries(response.multiValueHeaders ?? {})) {
+        const name = key.toLowerCase() === 'set-cookie' ? 'set-cookie' : key
+        multiValueHeaders[name] = [...(multiValueHeaders[name] ?? []), ...values]
+    }
+    return { headers, multiValueHeaders }
+}
+
+function resultBody(response: BufferedResponse) {
+    if (response.body === undefined) {
+        return { body: '', isBase64Encoded: false }
+    }
+    if (Buffer.isBuffer(response.body)) {
+        return { body: response.body.toString('base64'), isBase64Encoded: true }
+    }
+    return { body: response.body, isBase64Encoded: response.isBase64Encoded ?? false }
+}
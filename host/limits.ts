@@ -0,0 +1,43 @@
+import type { HttpHandlerConfiguration } from '../http.js'
+import type { RequestOptions, Response } from './http.js'
+
+/**
+ * The maximum payload of a synchronous Lambda invocation, in bytes.
+ */
+const defaultBodySizeLimit = 6 * 1024 * 1024
+
+export type BodySizeLimits = {
+    readonly requestBodySize: number
+    readonly responseBodySize: number
+}
+
+export function bodySizeLimits(config: HttpHandlerConfiguration | undefined): BodySizeLimits {
+    return {
+        requestBodySize: config?.limits?.requestBodySize ?? defaultBodySizeLimit,
+        responseBodySize: config?.limits?.responseBodySize ?? defaultBodySizeLimit,
+    }
+}
+
+export function requestBodySize(options: RequestOptions): number {
+    if ('json' in options) {
+        return Buffer.byteLength(JSON.stringify(options.json))
+    }
+    if ('body' in options) {
+        return typeof options.body === 'string'
+            ? Buffer.byteLength(options.body, options.isBase64Encoded ? 'base64' : 'utf-8')
+            : options.body.length
+    }
+    return 0
+}
+
+/**
+ * The size of a response body in bytes as it is returned from Lambda, where binary bodies are
+ * base64 encoded. Streamed bodies are not counted.
+ */
+export function responseBodySize(response: Response): number {
+    const { body } = response
+    if (typeof body === 'string') {
+        return Buffer.byteLength(body)
+    }
+    return Buffer.isBuffer(body) ? Math.ceil(body.length / 3) * 4 : 0
+}
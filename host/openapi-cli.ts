@@ -0,0 +1,15 @@
+#!/usr/bin/env node
+import { toOpenApi } from './openapi.js'
+import { reflect } from './reflect.js'
+
+reflect(process.argv[2] ?? '.').then(
+    reflection => {
+        process.stdout.write(
+            JSON.stringify(toOpenApi(reflection, process.argv[3]), undefined, 2) + '\n',
+        )
+    },
+    (e: unknown) => {
+        console.error(e)
+        process.exitCode = 1
+    },
+)
@@ -0,0 +1,142 @@
+import type { JsonSchema } from '../http.js'
+import type { Reflection } from './reflect.js'
+
+type Parameter = {
+    name: string
+    in: 'path' | 'query' | 'header'
+    required: boolean
+    description?: string
+    schema: JsonSchema
+}
+
+type Operation = {
+    operationId: string
+    parameters?: Parameter[]
+    requestBody?: {
+        required: boolean
+        content: { [contentType: string]: { schema: JsonSchema } }
+    }
+    responses: {
+        [status: string]: {
+            description: string
+            content?: { [contentType: string]: { schema: JsonSchema } }
+        }
+    }
+    'x-cors'?: unknown
+}
+
+export type OpenApiDocument = {
+    openapi: '3.1.0'
+    info: { title: string; version: string }
+    paths: { [path: string]: { [method: string]: Operation } }
+}
+
+/**
+ * Describes the HTTP handlers of a reflected package as an OpenAPI 3.1 document. Operation ids are
+ * derived from the handler file names, suffixed with the method when a file has several handlers.
+ *
+ * OpenAPI has no notion of a parameter spanning several path steps, so a `**` wildcard is described
+ * as a single path parameter. Generated clients escape any slashes in it as `%2F`, which the host
+ * unescapes again, so the handler sees the same path steps as when the slashes are not escaped.
+ */
+export function toOpenApi(reflection: Reflection, version = '0.0.0'): OpenApiDocument {
+    const paths: OpenApiDocument['paths'] = {}
+    const operationIds = new Set<string>()
+    for (const handler of reflection.http) {
+        const { path, parameters } = openApiPath(handler.pathPattern, handler.pathParameters)
+        const schema = handler.config.schema
+        const operation: Operation = {
+            operationId: operationId(reflection, handler, operationIds),
+            responses: {
+                default: {
+                    description: 'Response',
+                    ...(schema?.response && {
+                        content: { 'application/json': { schema: schema.response } },
+                    }),
+                },
+            },
+        }
+        const allParameters = [
+            ...parameters,
+            ...schemaParameters('query', schema?.query),
+            ...schemaParameters('header', schema?.headers),
+        ]
+        if (allParameters.length !== 0) {
+            operation.parameters = allParameters
+        }
+        if (schema?.body) {
+            operation.requestBody = {
+                required: true,
+                content: { 'application/json': { schema: schema.body } },
+            }
+        }
+        if (handler.config.cors) {
+            operation['x-cors'] = handler.config.cors
+        }
+        ;(paths[path] ??= {})[handler.method.toLowerCase()] = operation
+    }
+    return {
+        openapi: '3.1.0',
+        info: { title: reflection.name, version },
+        paths,
+    }
+}
+
+function operationId(
+    reflection: Reflection,
+    handler: Reflection['http'][number],
+    used: Set<string>,
+) {
+    const base =
+        reflection.http.filter(h => h.name === handler.name).length === 1
+            ? handler.name
+            : handler.name + (handler.method[0] ?? '') + handler.method.substring(1).toLowerCase()
+    let id = base
+    for (let ix = 2; used.has(id); ++ix) {
+        id = `${base}${ix}`
+    }
+    used.add(id)
+    return id
+}
+
+function openApiPath(pathPattern: string, names: string[]) {
+    const parameters: Parameter[] = []
+    const path = pathPattern
+        .split('/')
+        .map((step, ix) => {
+            const name = step.startsWith(':') ? step.substring(1) : undefined
+            if (name && names.includes(name)) {
+                parameters.push({ name, in: 'path', required: true, schema: { type: 'string' } })
+                return `{${name}}`
+            }
+            if (step === '*' || step === '**') {
+                const stepName = `step${ix - 1}`
+                parameters.push({
+                    name: stepName,
+                    in: 'path',
+                    required: true,
+                    description:
+                        step === '**'
+                            ? 'The remainder of the path. Its slashes may be escaped.'
+                            : `Path step ${ix - 1}.`,
+                    schema: { type: 'string' },
+                })
+                return `{${stepName}}`
+            }
+            return step
+        })
+        .join('/')
+    return { path, parameters }
+}
+
+function schemaParameters(location: 'query' | 'header', schema: JsonSchema | undefined) {
+    return Object.entries(schema?.properties ?? {}).map(
+        ([name, property]): Parameter => ({
+            name,
+            in: location,
+            required: schema?.required?.includes(name) ?? false,
+            ...(property.description && { description: property.description }),
+            schema: property,
+        }),
+    )
+}
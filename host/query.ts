@@ -0,0 +1,65 @@
+import { BadRequest } from '../errors.js'
+import type { Query } from '../http.js'
+
+export function createQuery(searchParams: URLSearchParams): Query {
+    const string = (name: string) => searchParams.get(name) ?? undefined
+    return {
+        string,
+        int: (name, range) => {
+            const value = string(name)
+            if (value === undefined) {
+                return undefined
+            }
+            const number = /^[-+]?\d+$/u.test(value.trim()) ? Number(value) : NaN
+            if (!Number.isSafeInteger(number)) {
+                throw invalid(name, 'should be an integer')
+            }
+            if (range?.min !== undefined && number < range.min) {
+                throw invalid(name, `should be at least ${range.min}`)
+            }
+            if (range?.max !== undefined && number > range.max) {
+                throw invalid(name, `should be at most ${range.max}`)
+            }
+            return number
+        },
+        bool: name => {
+            const value = string(name)
+            switch (value?.toLowerCase()) {
+                case undefined:
+                    return undefined
+                case 'true':
+                case '1':
+                    return true
+                case 'false':
+                case '0':
+                    return false
+                default:
+                    throw invalid(name, 'should be true or false')
+            }
+        },
+        list: name =>
+            searchParams
+                .getAll(name)
+                .flatMap(value => value.split(','))
+                .map(value => value.trim())
+                .filter(value => value !== ''),
+    }
+}
+
+/**
+ * The query parameters as an object, with repeated parameters as arrays.
+ */
+export function queryObject(searchParams: URLSearchParams): {
+    [name: string]: string | string[]
+} {
+    const query: { [name: string]: string | string[] } = {}
+    for (const name of new Set(searchParams.keys())) {
+        const values = searchParams.getAll(name)
+        query[name] = values.length === 1 ? (values[0] as string) : values
+    }
+    return query
+}
+
+function invalid(name: string, message: string) {
+    return new BadRequest(`Query parameter ${name} ${message}.`, { code: 'invalid-query' })
+}
@@ -0,0 +1,86 @@
+import type { Context } from '../context.js'
+import { TooManyRequests } from '../errors.js'
+import type { HttpRequest, RateLimitState, RateLimitStore } from '../http.js'
+import type { HttpHandler } from './registry.js'
+
+/**
+ * Limits each key to `limit` requests per `window` seconds, refilling continuously, in the memory
+ * of this process.
+ */
+export class TokenBucketRateLimitStore implements RateLimitStore {
+    readonly #buckets = new Map<string, { tokens: number; updated: number; full: number }>()
+
+    take(key: string, limit: number, window: number): Promise<RateLimitState> {
+        const now = Date.now()
+        const rate = limit / window
+        const bucket = this.#buckets.get(key)
+        const tokens = bucket
+            ? Math.min(limit, bucket.tokens + ((now - bucket.updated) / 1000) * rate)
+            : limit
+        const allowed = tokens >= 1
+        const remaining = allowed ? tokens - 1 : tokens
+        const reset = (limit - remaining) / rate
+        this.#buckets.set(key, { tokens: remaining, updated: now, full: now + reset * 1000 })
+        if (this.#buckets.size > 10000) {
+            this.#purge(now)
+        }
+        return Promise.resolve({
+            allowed,
+            limit,
+            remaining: Math.floor(remaining),
+            reset: Math.ceil(reset),
+            retryAfter: allowed ? 0 : Math.ceil((1 - remaining) / rate),
+        })
+    }
+
+    #purge(now: number) {
+        for (const [key, { full }] of this.#buckets) {
+            if (full <= now) {
+                this.#buckets.delete(key)
+            }
+        }
+    }
+}
+
+const defaultStore = new TokenBucketRateLimitStore()
+
+/**
+ * Takes a request from the client's allowance, returning the `ratelimit-*` headers to send.
+ * Throws a 429 Too Many Requests if the allowance is used up.
+ */
+export async function enforceRateLimit(
+    context: Context,
+    handler: HttpHandler,
+    request: HttpRequest,
+): Promise<{ [key: string]: string }> {
+    const config = handler.config?.rateLimit
+    if (!config) {
+        return {}
+    }
+    // Client ids are not verified, so they cannot identify clients to limit.
+    const client =
+        typeof config.key === 'function'
+            ? ['custom', config.key(request, context)]
+            : config.key !== 'ip' && context.principal
+            ? ['principal', context.principal.subject]
+            : ['ip', context.client?.ip]
+    if (client[1] === undefined) {
+        // Requests that cannot be told apart would otherwise share, and exhaust, one allowance.
+        return {}
+    }
+    const key = JSON.stringify([handler.method, handler.pathPattern, ...client])
+    const state = await (config.store ?? defaultStore).take(key, config.requests, config.window)
+    const headers = {
+        'ratelimit-limit': state.limit.toString(),
+        'ratelimit-remaining': state.remaining.toString(),
+        'ratelimit-reset': state.reset.toString(),
+    }
+    if (!state.allowed) {
+        throw new TooManyRequests('Rate limit exceeded.', {
+            code: 'rate-limited',
+            retryAfter: state.retryAfter,
+            headers,
+        })
+    }
+    return headers
+}
@@ -0,0 +1,113 @@
+import { appendFile } from 'node:fs/promises'
+import type { Json } from '../context.js'
+import type { StoredResponse } from '../http.js'
+import type { ClientInfo, EventTransport, LogTransport } from './context.js'
+import type { RequestOptions, Response } from './http.js'
+
+/**
+ * A request and its outcome, as one line of a recording.
+ */
+export type RecordedExchange = {
+    readonly method: string
+    readonly request: {
+        readonly uri: string
+        readonly headers?: { readonly [key: string]: string }
+        readonly body?: string
+        readonly isBase64Encoded?: boolean
+    }
+    readonly client: ClientInfo
+    /**
+     * The response, without a body if it was streamed.
+     */
+    readonly response: StoredResponse & { readonly streamed?: boolean }
+    readonly logs: readonly Json[]
+    readonly events: { readonly [topic: string]: readonly RecordedEvent[] }
+}
+
+export type RecordedEvent = {
+    readonly type: string
+    readonly subject: string
+    readonly messageId?: string
+    readonly data?: Json
+}
+
+export type ExchangeRecorder = {
+    readonly logTransport: LogTransport
+    readonly eventTransport: EventTransport
+    response(response: Response): void
+    save(method: string, options: RequestOptions, client: ClientInfo): Promise<void>
+}
+
+/**
+ * Captures the log entries, events and response of one request, passing events on to the
+ * transport, and appends them to a JSONL recording once the request is done.
+ */
+export function recordExchange(file: string, eventTransport: EventTransport): ExchangeRecorder {
+    const logs: Json[] = []
+    const events: { [topic: string]: RecordedEvent[] } = {}
+    let recordedResponse: RecordedExchange['response'] = { status: 500, headers: {} }
+    return {
+        logTransport: {
+            sendEntries: entries => {
+                logs.push(...entries.map(entry => JSON.parse(entry.json) as Json))
+                return undefined
+            },
+        },
+        eventTransport: {
+            publishRate: eventTransport.publishRate,
+            sendEvents: (topic, sent, signal) => {
+                ;(events[topic] ??= []).push(
+                    ...sent.map(event => ({
+                        type: event.meta.type,
+                        subject: event.meta.subject,
+                        messageId: event.meta.id,
+                        data:
+                            event.json === undefined ? undefined : (JSON.parse(event.json) as Json),
+                    })),
+                )
+                return eventTransport.sendEvents(topic, sent, signal)
+            },
+        },
+        response: response => {
+            const { body } = response
+            recordedResponse = {
+                status: response.status,
+                headers: response.headers,
+                multiValueHeaders: response.multiValueHeaders,
+                ...(body === undefined || typeof body === 'string'
+                    ? { body, isBase64Encoded: response.isBase64Encoded }
+                    : Buffer.isBuffer(body)
+                    ? { body: body.toString('base64'), isBase64Encoded: true }
+                    : { streamed: true }),
+            }
+        },
+        save: async (method, options, client) => {
+            const exchange: RecordedExchange = {
+                method,
+                request: recordedRequest(options),
+                client,
+                response: recordedResponse,
+                logs,
+                events,
+            }
+            await appendFile(file, JSON.stringify(exchange) + '\n')
+        },
+    }
+}
+
+function recordedRequest(options: RequestOptions): RecordedExchange['request'] {
+    const { uri, headers } = options
+    if ('json' in options) {
+        return { uri, headers, body: JSON.stringify(options.json) }
+    }
+    if (!('body' in options)) {
+        return { uri, headers }
+    }
+    if (typeof options.body === 'string') {
+        return { uri, headers, body: options.body, isBase64Encoded: options.isBase64Encoded }
+    }
+    const text = options.body.toString('utf-8')
+    return Buffer.from(text).equals(options.body)
+        ? { uri, headers, body: text }
+        : { uri, headers, body: options.body.toString('base64'), isBase64Encoded: true }
+}
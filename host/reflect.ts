@@ -1,8 +1,10 @@
 import { readdir, readFile } from 'node:fs/promises'
 import { basename, extname, join, resolve } from 'node:path'
 import { pathToFileURL } from 'node:url'
-import { HttpHandlerConfiguration } from '../http.js'
-import { PackageConfiguration } from './registry.js'
+import { HandlerConfiguration } from '../context.js'
+import { HealthCheckConfiguration, HttpHandlerConfiguration } from '../http.js'
+import { BodySizeLimits, bodySizeLimits } from './limits.js'
+import { findRouteConflicts, PackageConfiguration } from './registry.js'
 
 type CPU =
     | 'arm'
@@ -32,8 +34,29 @@ export type Reflection = {
         method: string
         pathPattern: string
         pathRegExp: RegExp
+        pathParameters: string[]
+        limits: BodySizeLimits
         config: HttpHandlerConfiguration & PackageJsonConfiguration
     }[]
+    events: {
+        name: string
+        topic: string
+        type: string
+        config: HandlerConfiguration & PackageJsonConfiguration
+    }[]
+    schedules: {
+        name: string
+        cronExpression: string
+        config: HandlerConfiguration & PackageJsonConfiguration
+    }[]
+    /**
+     * The checks run by the built-in `GET /health` endpoint, which is served when there are any.
+     */
+    healthChecks: {
+        name: string
+        fileName: string
+        config: HealthCheckConfiguration
+    }[]
 }
 
 export function resolveCpu(config: PackageJsonConfiguration, supported: CPU[]): CPU {
@@ -78,14 +101,31 @@ export async function reflect(path: string): Promise<Reflection> {
     const { getHandlers, setMeta } = (await import(
         pathToFileURL(join(absolutePath, 'node_modules/@riddance/host/host/registry.js')).toString()
     )) as {
-        getHandlers: (type: string) => {
+        getHandlers: ((type: 'http') => {
             name: string
             meta?: { fileName: string }
             config: HttpHandlerConfiguration
             method: string
             pathPattern: string
             pathRegExp: RegExp
-        }[]
+            pathParameters?: string[]
+        }[]) &
+            ((type: 'event') => {
+                meta?: { fileName: string }
+                config: HandlerConfiguration
+                topic: string
+                type: string
+            }[]) &
+            ((type: 'schedule') => {
+                meta?: { fileName: string }
+                config: HandlerConfiguration
+                cronExpression: string
+            }[]) &
+            ((type: 'health') => {
+                name: string
+                meta?: { fileName: string }
+                config?: HealthCheckConfiguration
+            }[])
         setMeta: (
             packageName: string,
             fileName: string,
@@ -100,6 +140,11 @@ export async function reflect(path: string): Promise<Reflection> {
         await import(pathToFileURL(join(absolutePath, base + '.js')).toString())
     }
 
+    const conflicts = findRouteConflicts(getHandlers('http'))
+    if (conflicts.length !== 0) {
+        throw new Error(`Route conflicts:\n${conflicts.join('\n')}`)
+    }
+
     return {
         name: packageJson.name,
         http: getHandlers('http').map(h => ({
@@ -113,6 +158,34 @@ export async function reflect(path: string): Promise<Reflection> {
             method: h.method,
             pathPattern: h.pathPattern,
             pathRegExp: h.pathRegExp,
+            pathParameters: h.pathParameters ?? [],
+            limits: bodySizeLimits(h.config),
+        })),
+        events: getHandlers('event').map(h => ({
+            config: {
+                ...h.config,
+                cpus: packageJson.cpu,
+                os: packageJson.os,
+                nodeVersion: packageJson.engines?.node,
+            },
+            name: h.meta?.fileName ?? '',
+            topic: h.topic,
+            type: h.type,
+        })),
+        schedules: getHandlers('schedule').map(h => ({
+            config: {
+                ...h.config,
+                cpus: packageJson.cpu,
+                os: packageJson.os,
+                nodeVersion: packageJson.engines?.node,
+            },
+            name: h.meta?.fileName ?? '',
+            cronExpression: h.cronExpression,
+        })),
+        healthChecks: getHandlers('health').map(h => ({
+            config: h.config ?? {},
+            name: h.name,
+            fileName: h.meta?.fileName ?? '',
         })),
     }
 }
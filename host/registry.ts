@@ -1,30 +1,95 @@
 import { HandlerConfiguration } from '../context.js'
-import { Handler } from '../http.js'
+import type { Handler as EventEntry } from '../event.js'
+import {
+    CorsConfiguration,
+    Handler,
+    HealthCheck,
+    HealthCheckConfiguration,
+    HttpHandlerConfiguration,
+    Middleware,
+    PathParameters,
+} from '../http.js'
+import type { Handler as ScheduleEntry } from '../schedule.js'
+import { checkCors, preflightHeaders, resolveCors } from './cors.js'
+import { nextOccurrence, parseCron } from './cron.js'
+import { healthHandler, isHealthPath } from './health.js'
 
 export type HttpHandler = {
     meta: Metadata | undefined
-    config: (PackageConfiguration & HandlerConfiguration) | undefined
+    config: (PackageConfiguration & HttpHandlerConfiguration) | undefined
     method: Method
     pathPattern: string
     pathRegExp: RegExp
+    pathParameters: string[]
     entry: Handler
+    /**
+     * Set on the handlers answering CORS preflight requests, which run without middleware.
+     */
+    preflight?: true
+}
+
+export type EventHandler = {
+    meta: Metadata | undefined
+    config: (PackageConfiguration & HandlerConfiguration) | undefined
+    topic: string
+    type: string
+    entry: EventEntry
+}
+
+export type ScheduleHandler = {
+    meta: Metadata | undefined
+    config: (PackageConfiguration & HandlerConfiguration) | undefined
+    cronExpression: string
+    entry: ScheduleEntry
+}
+
+export type HealthCheckHandler = {
+    meta: Metadata | undefined
+    config: HealthCheckConfiguration | undefined
+    name: string
+    entry: HealthCheck
 }
 
 type HandlerTypes = {
     http: HttpHandler
+    event: EventHandler
+    schedule: ScheduleHandler
+    health: HealthCheckHandler
 }
 
 const handlers: { [key: string]: unknown[] } = {}
+let routes: HttpHandler[] | undefined
+const middleware: Middleware[] = []
 
-function addHandler(type: keyof HandlerTypes, handler: HttpHandler) {
+function addHandler<T extends keyof HandlerTypes>(type: T, handler: HandlerTypes[T]) {
     ;(handlers[type] ??= []).push(handler)
+    routes = undefined
+}
+
+export function getHandlers<T extends keyof HandlerTypes>(type: T) {
+    return (handlers[type] ?? []) as HandlerTypes[T][]
+}
+
+/**
+ * Forgets all registered handlers and middleware, so that handler files can be loaded again.
+ */
+export function clearHandlers() {
+    for (const type of Object.keys(handlers)) {
+        handlers[type] = []
+    }
+    routes = undefined
+    middleware.length = 0
+}
+
+export function registerMiddleware(fn: Middleware) {
+    middleware.push(fn)
 }
 
-export function getHandlers(type: keyof HandlerTypes) {
-    return (handlers[type] ?? []) as HttpHandler[]
+export function getMiddleware(): readonly Middleware[] {
+    return middleware
 }
 
-export function getHandler(type: keyof HandlerTypes) {
+export function getHandler<T extends keyof HandlerTypes>(type: T) {
     const hs = getHandlers(type)
     const [handler] = hs
     if (!handler) {
@@ -36,12 +101,172 @@ export function getHandler(type: keyof HandlerTypes) {
     return handler
 }
 
-type HttpHost = (
+export type HttpRoute =
+    | { handler: HttpHandler }
+    | {
+          handler?: undefined
+          status: 404 | 405
+          headers: { readonly [key: string]: string }
+      }
+
+/**
+ * Finds the handler for a request. Literal path steps take precedence over wildcards and longer
+ * patterns over shorter ones. HEAD requests are served by GET handlers, and OPTIONS requests are
+ * answered with a CORS preflight response for paths with a CORS configuration. GET and HEAD
+ * requests for `/health` run the registered health checks, if any, ahead of wildcard routes, as
+ * registering both health checks and an explicit `/health` route is an error. When no handler
+ * matches, the route is a 404, or a 405 with an `allow` header if the path matches but the method
+ * does not.
+ */
+export function routeHttpRequest(method: string, uri: string): HttpRoute {
+    const requestMethod = method.toUpperCase()
+    if ((requestMethod === 'GET' || requestMethod === 'HEAD') && isHealthPath(uri)) {
+        const checks = getHandlers('health')
+        if (checks.length !== 0) {
+            return { handler: healthHandler(requestMethod, checks) }
+        }
+    }
+    const matching = (routes ??= [...getHandlers('http')].sort(comparePrecedence)).filter(h =>
+        h.pathRegExp.test(uri),
+    )
+    const handler = matching.find(h => h.method === requestMethod)
+    if (handler) {
+        return { handler }
+    }
+    if (requestMethod === 'HEAD') {
+        const getHandler = matching.find(h => h.method === 'GET')
+        if (getHandler) {
+            return { handler: { ...getHandler, method: 'HEAD' } }
+        }
+    }
+    if (requestMethod === 'OPTIONS') {
+        for (const h of matching) {
+            if (h.config?.cors) {
+                return {
+                    handler: preflightHandler(
+                        h,
+                        resolveCors(h.config.cors),
+                        allowedMethods(matching),
+                    ),
+                }
+            }
+        }
+    }
+    if (matching.length === 0) {
+        return { status: 404, headers: {} }
+    }
+    return {
+        status: 405,
+        headers: { allow: allowedMethods(matching).join(', ') },
+    }
+}
+
+function allowedMethods(matching: HttpHandler[]) {
+    const methods = new Set<string>(matching.map(h => h.method))
+    if (methods.has('GET')) {
+        methods.add('HEAD')
+    }
+    if (matching.some(h => h.config?.cors)) {
+        methods.add('OPTIONS')
+    }
+    return [...methods].sort()
+}
+
+/**
+ * A handler answering preflight requests for the path of the handler. Its only configuration is
+ * CORS, so that authentication, validation, rate limiting and idempotency do not apply.
+ */
+function preflightHandler(
+    corsHandler: HttpHandler,
+    cors: CorsConfiguration,
+    methods: string[],
+): HttpHandler {
+    return {
+        meta: corsHandler.meta,
+        config: { cors },
+        method: 'OPTIONS',
+        pathPattern: corsHandler.pathPattern,
+        pathRegExp: corsHandler.pathRegExp,
+        pathParameters: corsHandler.pathParameters,
+        preflight: true,
+        entry: (_, request) => ({
+            status: 204,
+            headers: { ...preflightHeaders(cors, request.headers, methods) },
+        }),
+    }
+}
+
+function comparePrecedence(a: HttpHandler, b: HttpHandler) {
+    const aSteps = a.pathPattern.split('/')
+    const bSteps = b.pathPattern.split('/')
+    for (let ix = 0; ix < Math.min(aSteps.length, bSteps.length); ++ix) {
+        const diff = stepRank(aSteps[ix] as string) - stepRank(bSteps[ix] as string)
+        if (diff !== 0) {
+            return diff
+        }
+    }
+    return bSteps.length - aSteps.length
+}
+
+function stepRank(step: string) {
+    if (step === '**') {
+        return 2
+    }
+    if (step === '*' || pathParameterName(step)) {
+        return 1
+    }
+    return 0
+}
+
+type RouteDescription = {
+    method: string
+    pathPattern: string
+    meta?: { fileName: string } | undefined
+}
+
+/**
+ * Finds routes that can never be reached because an earlier route has the same method and an
+ * equivalent path pattern, e.g. `/things/*` and `/things/:id`.
+ */
+export function findRouteConflicts(candidates: readonly RouteDescription[]) {
+    const seen = new Map<string, RouteDescription>()
+    const conflicts: string[] = []
+    for (const route of candidates) {
+        const key = `${route.method} ${routeShape(route.pathPattern)}`
+        const existing = seen.get(key)
+        if (existing) {
+            conflicts.push(`${describeRoute(route)} conflicts with ${describeRoute(existing)}.`)
+        } else {
+            seen.set(key, route)
+        }
+    }
+    return conflicts
+}
+
+function routeShape(pathPattern: string) {
+    return pathPattern
+        .split('/')
+        .map(step => (stepRank(step) === 1 ? '*' : step))
+        .join('/')
+}
+
+/**
+ * Whether the route would serve `/health` explicitly, rather than through a wildcard.
+ */
+function isHealthRoute(route: RouteDescription) {
+    return (route.method === 'GET' || route.method === 'HEAD') && isHealthPath(route.pathPattern)
+}
+
+function describeRoute(route: RouteDescription) {
+    return `${route.method} ${route.pathPattern} in ${route.meta?.fileName ?? 'unknown file'}`
+}
+
+type HttpHost = <Params extends PathParameters<string>, Body>(
     meta: Metadata | undefined,
-    config: HandlerConfiguration | undefined,
+    config: HttpHandlerConfiguration | undefined,
     method: Method,
     path: string,
-    handler: Handler,
+    handler: Handler<Params, Body>,
 ) => void
 
 let httpHostRegistry: HttpHost
@@ -50,6 +275,46 @@ function setHttpHost(host: HttpHost) {
     httpHostRegistry = host
 }
 
+type EventHost = (
+    meta: Metadata | undefined,
+    config: HandlerConfiguration | undefined,
+    topic: string,
+    type: string,
+    handler: EventEntry,
+) => void
+
+let eventHostRegistry: EventHost
+
+function setEventHost(host: EventHost) {
+    eventHostRegistry = host
+}
+
+type ScheduleHost = (
+    meta: Metadata | undefined,
+    config: HandlerConfiguration | undefined,
+    cronExpression: string,
+    handler: ScheduleEntry,
+) => void
+
+let scheduleHostRegistry: ScheduleHost
+
+function setScheduleHost(host: ScheduleHost) {
+    scheduleHostRegistry = host
+}
+
+type HealthCheckHost = (
+    meta: Metadata | undefined,
+    config: HealthCheckConfiguration | undefined,
+    name: string,
+    check: HealthCheck,
+) => void
+
+let healthCheckHostRegistry: HealthCheckHost
+
+function setHealthCheckHost(host: HealthCheckHost) {
+    healthCheckHostRegistry = host
+}
+
 let metadata: Metadata | undefined
 
 export function setMeta(
@@ -82,11 +347,40 @@ function getMetadata() {
     return metadata
 }
 
+function pathParameterName(step: string) {
+    return /^:(?<name>[A-Za-z_]\w*)$/u.exec(step)?.groups?.name
+}
+
+function pathParameterNames(path: string) {
+    const steps = path.split('/')
+    const invalid = steps.find(step => step.startsWith(':') && !pathParameterName(step))
+    if (invalid) {
+        throw new Error(
+            `Path parameter ${invalid} in ${path} must be a whole step of letters, digits and underscores.`,
+        )
+    }
+    const names = steps.map(pathParameterName).filter((name): name is string => !!name)
+    const duplicate = names.find((name, ix) => names.indexOf(name) !== ix)
+    if (duplicate) {
+        throw new Error(`Path parameter ${duplicate} appears more than once in ${path}.`)
+    }
+    return names
+}
+
 function pathToRegExp(path: string) {
     return new RegExp(
         (
             '^' +
-            path.replace(/[/\\^$+?.()|[\]{}]/gu, '\\$&').replaceAll('*', '[^/\\?]+') +
+            path
+                .split('/')
+                .map(step => {
+                    const name = pathParameterName(step)
+                    if (name) {
+                        return `(?<${name}>[^/\\?]+)`
+                    }
+                    return step.replace(/[\\^$+?.()|[\]{}]/gu, '\\$&').replaceAll('*', '[^/\\?]+')
+                })
+                .join('\\/') +
             '(\\?.*)?$'
         ).replace('[^/\\?]+[^/\\?]+(\\?.*)?$', ''),
         'u',
@@ -95,8 +389,8 @@ function pathToRegExp(path: string) {
 
 function combineConfig(
     base: PackageConfiguration | undefined,
-    override: HandlerConfiguration | undefined,
-): (PackageConfiguration & HandlerConfiguration) | undefined {
+    override: HttpHandlerConfiguration | undefined,
+): (PackageConfiguration & HttpHandlerConfiguration) | undefined {
     if (base === undefined) {
         return override
     } else if (override === undefined) {
@@ -105,32 +399,54 @@ function combineConfig(
     return { ...base, ...override }
 }
 
-function httpHost(
+function httpHost<Params extends PathParameters<string>, Body>(
     meta: Metadata | undefined,
-    cfg: HandlerConfiguration | undefined,
+    cfg: HttpHandlerConfiguration | undefined,
     method: Method,
     path: string,
-    entry: Handler,
+    entry: Handler<Params, Body>,
 ) {
+    const [conflict] = findRouteConflicts([
+        ...getHandlers('http'),
+        { method, pathPattern: path, meta },
+    ])
+    if (conflict) {
+        throw new Error(`Route conflict: ${conflict}`)
+    }
+    if (isHealthRoute({ method, pathPattern: path }) && getHandlers('health').length !== 0) {
+        throw new Error(
+            `Route conflict: ${describeRoute({
+                method,
+                pathPattern: path,
+                meta,
+            })} conflicts with the health checks.`,
+        )
+    }
+    const config = combineConfig(meta?.config, cfg)
+    if (config?.cors) {
+        checkCors(config.cors)
+    }
     addHandler('http', {
         meta,
-        config: combineConfig(meta?.config, cfg),
+        config,
         method,
         pathPattern: path,
         pathRegExp: pathToRegExp(path),
-        entry,
+        pathParameters: pathParameterNames(path),
+        // The parameters come from the path, and the body is validated against the schema, if any.
+        entry: entry as Handler,
     })
 }
 
 setHttpHost(httpHost)
 
-export type Method = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+export type Method = 'GET' | 'HEAD' | 'OPTIONS' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
 
-export function registerHttpHandler(
+export function registerHttpHandler<Params extends PathParameters<string>, Body>(
     method: Method,
     path: string,
-    configOrHandler: HandlerConfiguration | Handler,
-    fn?: Handler,
+    configOrHandler: HttpHandlerConfiguration | Handler<Params, Body>,
+    fn?: Handler<Params, Body>,
 ): void {
     if (typeof configOrHandler === 'function') {
         httpHostRegistry(getMetadata(), undefined, method, path, configOrHandler)
@@ -141,3 +457,107 @@ export function registerHttpHandler(
         httpHostRegistry(getMetadata(), configOrHandler, method, path, fn)
     }
 }
+
+function eventHost(
+    meta: Metadata | undefined,
+    cfg: HandlerConfiguration | undefined,
+    topic: string,
+    type: string,
+    entry: EventEntry,
+) {
+    addHandler('event', {
+        meta,
+        config: combineConfig(meta?.config, cfg),
+        topic,
+        type,
+        entry,
+    })
+}
+
+setEventHost(eventHost)
+
+export function registerEventHandler(
+    topic: string,
+    type: string,
+    configOrHandler: HandlerConfiguration | EventEntry,
+    fn?: EventEntry,
+): void {
+    if (typeof configOrHandler === 'function') {
+        eventHostRegistry(getMetadata(), undefined, topic, type, configOrHandler)
+    } else {
+        if (!fn) {
+            throw new Error('Please provide a handler function.')
+        }
+        eventHostRegistry(getMetadata(), configOrHandler, topic, type, fn)
+    }
+}
+
+function scheduleHost(
+    meta: Metadata | undefined,
+    cfg: HandlerConfiguration | undefined,
+    cronExpression: string,
+    entry: ScheduleEntry,
+) {
+    nextOccurrence(parseCron(cronExpression), new Date())
+    addHandler('schedule', {
+        meta,
+        config: combineConfig(meta?.config, cfg),
+        cronExpression,
+        entry,
+    })
+}
+
+setScheduleHost(scheduleHost)
+
+export function registerScheduleHandler(
+    cronExpression: string,
+    configOrHandler: HandlerConfiguration | ScheduleEntry,
+    fn?: ScheduleEntry,
+): void {
+    if (typeof configOrHandler === 'function') {
+        scheduleHostRegistry(getMetadata(), undefined, cronExpression, configOrHandler)
+    } else {
+        if (!fn) {
+            throw new Error('Please provide a handler function.')
+        }
+        scheduleHostRegistry(getMetadata(), configOrHandler, cronExpression, fn)
+    }
+}
+
+function healthCheckHost(
+    meta: Metadata | undefined,
+    cfg: HealthCheckConfiguration | undefined,
+    name: string,
+    entry: HealthCheck,
+) {
+    if (getHandlers('health').some(h => h.name === name)) {
+        throw new Error(`Health check ${name} is already registered.`)
+    }
+    const route = getHandlers('http').find(isHealthRoute)
+    if (route) {
+        throw new Error(`Route conflict: ${describeRoute(route)} conflicts with the health checks.`)
+    }
+    addHandler('health', {
+        meta,
+        config: cfg,
+        name,
+        entry,
+    })
+}
+
+setHealthCheckHost(healthCheckHost)
+
+export function registerHealthCheck(
+    name: string,
+    configOrCheck: HealthCheckConfiguration | HealthCheck,
+    fn?: HealthCheck,
+): void {
+    if (typeof configOrCheck === 'function') {
+        healthCheckHostRegistry(getMetadata(), undefined, name, configOrCheck)
+    } else {
+        if (!fn) {
+            throw new Error('Please provide a health check function.')
+        }
+        healthCheckHostRegistry(getMetadata(), configOrCheck, name, fn)
+    }
+}
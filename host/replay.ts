@@ -0,0 +1,231 @@
+import { readFile } from 'node:fs/promises'
+import type { Json } from '../context.js'
+import type { RecordedEvent, RecordedExchange } from './recording.js'
+import type { Method } from './registry.js'
+import { invoke, TestOptions } from './testing.js'
+
+export type ReplayOptions = Omit<TestOptions, 'client'> & {
+    readonly ignore?: {
+        /**
+         * Paths of values not to compare, with `*` matching any property or array index, such as
+         * `response.headers.etag` or `events.orders.*.data.createdAt`. Ignoring a value also
+         * ignores everything within it. The `ratelimit-remaining`, `ratelimit-reset`,
+         * `retry-after` and `x-timeout` response headers depend on timing, so they are always
+         * ignored.
+         */
+        readonly paths?: readonly string[]
+        /**
+         * A boolean indicating whether to consider any two ISO 8601 or HTTP dates equal.
+         * @default false
+         */
+        readonly timestamps?: boolean
+        /**
+         * A boolean indicating whether to consider any two UUIDs equal.
+         * @default false
+         */
+        readonly ids?: boolean
+    }
+}
+
+export type ReplayDifference = {
+    /**
+     * Where the difference is, such as `response.status` or `events.orders.0.data.id`.
+     */
+    readonly path: string
+    readonly recorded: unknown
+    readonly replayed: unknown
+}
+
+export type ReplayResult = {
+    /**
+     * The line of the recording, starting at 1.
+     */
+    readonly line: number
+    readonly method: string
+    readonly uri: string
+    /**
+     * A boolean indicating whether the request was not replayed, as its response was streamed.
+     */
+    readonly skipped: boolean
+    readonly differences: readonly ReplayDifference[]
+}
+
+type Comparable = {
+    response: {
+        status: number
+        headers: { readonly [key: string]: string }
+        multiValueHeaders?: { readonly [key: string]: readonly string[] }
+        body?: Json
+    }
+    events: { readonly [topic: string]: readonly RecordedEvent[] }
+}
+
+const timingPaths = [
+    'response.headers.ratelimit-remaining',
+    'response.headers.ratelimit-reset',
+    'response.headers.retry-after',
+    'response.headers.x-timeout',
+]
+
+const isoDate = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/u
+const httpDate = /^[A-Z][a-z]{2}, \d{2} [A-Z][a-z]{2} \d{4} \d{2}:\d{2}:\d{2} GMT$/u
+const uuid = /^[\da-f]{8}-[\da-f]{4}-[\da-f]{4}-[\da-f]{4}-[\da-f]{12}$/iu
+
+/**
+ * Replays the requests of a recording made by the server's `record` option, in order, against the
+ * registered handlers, and compares the responses and emitted events with the recorded ones.
+ */
+export async function replay(file: string, options: ReplayOptions = {}): Promise<ReplayResult[]> {
+    const { ignore, ...testOptions } = options
+    const ignoredPaths = [...timingPaths, ...(ignore?.paths ?? [])].map(path => path.split('.'))
+    const lines = (await readFile(file, 'utf-8')).split('\n')
+    const results: ReplayResult[] = []
+    for (const [ix, line] of lines.entries()) {
+        if (line.trim() === '') {
+            continue
+        }
+        const recorded = JSON.parse(line) as RecordedExchange
+        const { method, request } = recorded
+        if (recorded.response.streamed) {
+            results.push({ line: ix + 1, method, uri: request.uri, skipped: true, differences: [] })
+            continue
+        }
+        const invocation = await invoke(
+            request.uri,
+            {
+                method: method.toUpperCase() as Method,
+                headers: request.headers,
+                body:
+                    request.body === undefined
+                        ? undefined
+                        : Buffer.from(request.body, request.isBase64Encoded ? 'base64' : 'utf-8'),
+            },
+            { ...testOptions, client: recorded.client },
+        )
+        const differences: ReplayDifference[] = []
+        compare(
+            [],
+            comparable(recorded.response, recorded.events),
+            comparable(invocation.response, invocation.events),
+            (path, recordedValue, replayedValue) => {
+                if (!ignoredPaths.some(ignored => matchesPath(ignored, path))) {
+                    differences.push({
+                        path: path.join('.'),
+                        recorded: recordedValue,
+                        replayed: replayedValue,
+                    })
+                }
+            },
+            ignore ?? {},
+        )
+        results.push({ line: ix + 1, method, uri: request.uri, skipped: false, differences })
+    }
+    return results
+}
+
+function comparable(
+    response: {
+        status: number
+        headers: { readonly [key: string]: string }
+        multiValueHeaders?: { readonly [key: string]: readonly string[] }
+        body?: string | Buffer
+        isBase64Encoded?: boolean
+    },
+    events: { readonly [topic: string]: readonly RecordedEvent[] },
+): Comparable {
+    return {
+        response: {
+            status: response.status,
+            headers: response.headers,
+            multiValueHeaders: response.multiValueHeaders,
+            body: comparableBody(response),
+        },
+        events: Object.fromEntries(
+            Object.entries(events).map(([topic, sent]) => [
+                topic,
+                sent.map(({ type, subject, messageId, data }) => ({
+                    type,
+                    subject,
+                    messageId,
+                    data,
+                })),
+            ]),
+        ),
+    }
+}
+
+function comparableBody(response: {
+    headers: { readonly [key: string]: string }
+    body?: string | Buffer
+    isBase64Encoded?: boolean
+}): Json | undefined {
+    const { body } = response
+    if (body === undefined) {
+        return undefined
+    }
+    const bytes = Buffer.isBuffer(body)
+        ? body
+        : Buffer.from(body, response.isBase64Encoded ? 'base64' : 'utf-8')
+    const text = bytes.toString('utf-8')
+    if (!Buffer.from(text).equals(bytes)) {
+        return bytes.toString('base64')
+    }
+    if (
+        text !== '' &&
+        !response.headers['content-encoding'] &&
+        /json/u.test(response.headers['content-type'] ?? '')
+    ) {
+        try {
+            return JSON.parse(text) as Json
+        } catch {
+            return text
+        }
+    }
+    return text
+}
+
+function compare(
+    path: string[],
+    recorded: unknown,
+    replayed: unknown,
+    report: (path: string[], recorded: unknown, replayed: unknown) => void,
+    ignore: { readonly timestamps?: boolean; readonly ids?: boolean },
+) {
+    if (recorded === replayed) {
+        return
+    }
+    if (typeof recorded === 'string' && typeof replayed === 'string') {
+        if (ignore.timestamps && isTimestamp(recorded) && isTimestamp(replayed)) {
+            return
+        }
+        if (ignore.ids && uuid.test(recorded) && uuid.test(replayed)) {
+            return
+        }
+    }
+    if (
+        typeof recorded === 'object' &&
+        typeof replayed === 'object' &&
+        recorded !== null &&
+        replayed !== null &&
+        Array.isArray(recorded) === Array.isArray(replayed)
+    ) {
+        const a = recorded as { readonly [key: string]: unknown }
+        const b = replayed as { readonly [key: string]: unknown }
+        for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) {
+            compare([...path, key], a[key], b[key], report, ignore)
+        }
+        return
+    }
+    report(path, recorded, replayed)
+}
+
+function isTimestamp(value: string) {
+    return isoDate.test(value) || httpDate.test(value)
+}
+
+function matchesPath(ignored: string[], path: string[]) {
+    return (
+        ignored.length <= path.length &&
+        ignored.every((step, ix) => step === '*' || step === path[ix])
+    )
+}
@@ -0,0 +1,98 @@
+import { randomUUID } from 'node:crypto'
+import { Context, Environment, measure } from '../context.js'
+import { createContext, EventTransport, LogTransport, RootLogger } from './context.js'
+import { nextOccurrence, parseCron } from './cron.js'
+import { getHandlers, ScheduleHandler } from './registry.js'
+
+export async function executeSchedule(
+    log: RootLogger,
+    context: Omit<Context, 'log'>,
+    handler: ScheduleHandler,
+    triggerTime: Date,
+    success: () => Promise<unknown>,
+): Promise<void> {
+    log = log.enrichReserved({
+        meta: context.meta,
+        schedule: { cronExpression: handler.cronExpression, triggerTime },
+    })
+    log.trace('Schedule BEGIN')
+    try {
+        await measure(log, 'execution', () => handler.entry({ ...context, log }, triggerTime))
+        log.debug('Schedule END')
+        await success()
+    } catch (e) {
+        log.error('Schedule END', e)
+        throw e
+    }
+}
+
+const maxTimeout = 2 ** 31 - 1
+
+/**
+ * Runs the registered schedules on timers in this process, for local development. Returns a
+ * function that stops all timers.
+ */
+export function startScheduler(
+    loggers: LogTransport[],
+    eventTransport: EventTransport,
+    timeouts: { default: number; cap?: number },
+    environment?: Environment,
+): () => void {
+    const timers = new Set<NodeJS.Timeout>()
+    let stopped = false
+
+    const arm = (handler: ScheduleHandler, triggerTime: Date) => {
+        if (stopped) {
+            return
+        }
+        const delay = triggerTime.getTime() - Date.now()
+        const timer = setTimeout(() => {
+            timers.delete(timer)
+            if (delay > maxTimeout) {
+                arm(handler, triggerTime)
+                return
+            }
+            arm(handler, nextOccurrence(parseCron(handler.cronExpression), triggerTime))
+            // eslint-disable-next-line no-void
+            void run(handler, triggerTime)
+        }, Math.max(0, Math.min(delay, maxTimeout)))
+        timers.add(timer)
+    }
+
+    const run = async (handler: ScheduleHandler, triggerTime: Date) => {
+        const { log, context, success, flush } = createContext(
+            { operationId: randomUUID() },
+            loggers,
+            eventTransport,
+            timeouts,
+            new AbortController(),
+            { ...handler.meta, config: handler.config },
+            environment,
+        )
+        try {
+            await executeSchedule(log, context, handler, triggerTime, success)
+        } catch {
+            // Already logged.
+        } finally {
+            await flush()
+        }
+    }
+
+    const stop = () => {
+        stopped = true
+        for (const timer of timers) {
+            clearTimeout(timer)
+        }
+        timers.clear()
+    }
+
+    for (const handler of getHandlers('schedule')) {
+        try {
+            arm(handler, nextOccurrence(parseCron(handler.cronExpression), new Date()))
+        } catch (e) {
+            stop()
+            throw e
+        }
+    }
+    return stop
+}
@@ -0,0 +1,47 @@
+#!/usr/bin/env node
+import { startServer } from './server.js'
+
+/**
+ * Parses `[path] [--verbose] [--record file]`, in any order. Returns `undefined` if the arguments
+ * are not valid.
+ */
+function parseArguments(args: string[]) {
+    let path: string | undefined
+    let verbose = false
+    let record: string | undefined
+    for (let ix = 0; ix < args.length; ++ix) {
+        const arg = args[ix]
+        if (arg === '--verbose') {
+            verbose = true
+        } else if (arg === '--record') {
+            record = args[++ix]
+            if (record === undefined || record.startsWith('--')) {
+                return undefined
+            }
+        } else if (arg?.startsWith('--') || path !== undefined) {
+            return undefined
+        } else {
+            path = arg
+        }
+    }
+    return { path, verbose, record }
+}
+
+const options = parseArguments(process.argv.slice(2))
+if (options) {
+    startServer({
+        ...options,
+        port: process.env.PORT ? Number(process.env.PORT) : undefined,
+    }).then(
+        ({ port }) => {
+            console.log(`Listening on http://localhost:${port}`)
+        },
+        (e: unknown) => {
+            console.error(e)
+            process.exitCode = 1
+        },
+    )
+} else {
+    console.error('Usage: riddance-serve [path] [--verbose] [--record file]')
+    process.exitCode = 1
+}
@@ -0,0 +1,352 @@
+import { randomUUID } from 'node:crypto'
+import { watch } from 'node:fs'
+import { readdir, readFile } from 'node:fs/promises'
+import { createServer, IncomingMessage, ServerResponse } from 'node:http'
+import { AddressInfo } from 'node:net'
+import { basename, extname, join, resolve } from 'node:path'
+import { Readable } from 'node:stream'
+import { pipeline } from 'node:stream/promises'
+import { pathToFileURL } from 'node:url'
+import { Environment } from '../context.js'
+import { PayloadTooLarge } from '../errors.js'
+import {
+    BufferedEvent,
+    createContext,
+    EventTransport,
+    LogEntry,
+    LogLevel,
+    LogTransport,
+} from './context.js'
+import { clientFromEvent, executeEvent } from './event.js'
+import {
+    clientFromHeaders,
+    errorToResponse,
+    executeRequest,
+    RequestOptions,
+    Response,
+    toRequestOptions,
+} from './http.js'
+import { bodySizeLimits } from './limits.js'
+import { recordExchange } from './recording.js'
+import {
+    clearHandlers,
+    getHandlers,
+    PackageConfiguration,
+    routeHttpRequest,
+    setMeta,
+} from './registry.js'
+import { startScheduler } from './schedule.js'
+
+export type ServerOptions = {
+    /**
+     * The directory of the package with the handlers.
+     * @default '.'
+     */
+    readonly path?: string
+    /**
+     * @default 3000
+     */
+    readonly port?: number
+    readonly environment?: Environment
+    /**
+     * The number of seconds handlers may run, unless configured otherwise.
+     * @default 30
+     */
+    readonly timeout?: number
+    /**
+     * A boolean indicating whether to reload the handlers when their files change.
+     * @default true
+     */
+    readonly watch?: boolean
+    /**
+     * A boolean indicating whether to print trace log entries.
+     * @default false
+     */
+    readonly verbose?: boolean
+    /**
+     * A file to append each request, with its response, log entries and emitted events, to as a
+     * line of JSON, for replaying later. Request headers are recorded as is, including any
+     * credentials.
+     * @default undefined
+     */
+    readonly record?: string
+}
+
+/**
+ * Serves the handlers of a package over HTTP for local development. Emitted events are delivered
+ * to the package's own event handlers and schedules run on timers.
+ */
+export async function startServer(options: ServerOptions = {}) {
+    const absolutePath = resolve(process.cwd(), options.path ?? '.')
+    const timeouts = { default: options.timeout ?? 30 }
+    const loggers = [consoleTransport(options.verbose ?? false)]
+    const eventTransport: EventTransport = {
+        publishRate: Number.MAX_SAFE_INTEGER,
+        sendEvents: (topic, events) => {
+            setImmediate(() => {
+                for (const event of events) {
+                    // eslint-disable-next-line no-void
+                    void deliver(topic, event)
+                }
+            })
+            return Promise.resolve()
+        },
+    }
+
+    const deliver = async (topic: string, event: BufferedEvent) => {
+        const subscribers = getHandlers('event').filter(
+            h => h.topic === topic && h.type === event.meta.type,
+        )
+        for (const handler of subscribers) {
+            const { log, context, success, flush } = createContext(
+                clientFromEvent(event),
+                loggers,
+                eventTransport,
+                timeouts,
+                new AbortController(),
+                { ...handler.meta, config: handler.config },
+                options.environment,
+            )
+            try {
+                await executeEvent(log, context, handler, event, success)
+            } catch {
+                // Already logged.
+            } finally {
+                await flush()
+            }
+        }
+    }
+
+    let generation = 0
+    let stopScheduler = () => {}
+    const load = async () => {
+        clearHandlers()
+        await loadHandlers(absolutePath, generation++)
+        stopScheduler()
+        stopScheduler = startScheduler(loggers, eventTransport, timeouts, options.environment)
+    }
+    await load()
+
+    const server = createServer((req, res) => {
+        // eslint-disable-next-line no-void
+        void serve(req, res)
+    })
+
+    const serve = async (req: IncomingMessage, res: ServerResponse) => {
+        const uri = req.url ?? '/'
+        const headers = flattenHeaders(req)
+        const route = routeHttpRequest(req.method ?? 'GET', uri)
+        if (!route.handler) {
+            res.writeHead(route.status, route.headers).end()
+            return
+        }
+        const fromHeaders = clientFromHeaders(headers)
+        const client = {
+            ...fromHeaders,
+            operationId: fromHeaders.operationId ?? randomUUID(),
+            // Nothing vouches for forwarded addresses in development, so the socket address wins.
+            clientIp: req.socket.remoteAddress ?? fromHeaders.clientIp,
+            clientPort: fromHeaders.clientPort ?? req.socket.remotePort,
+        }
+        const recorder = options.record ? recordExchange(options.record, eventTransport) : undefined
+        const { log, context, success, flush, abort } = createContext(
+            client,
+            recorder ? [...loggers, recorder.logTransport] : loggers,
+            recorder?.eventTransport ?? eventTransport,
+            timeouts,
+            new AbortController(),
+            { ...route.handler.meta, config: route.handler.config },
+            options.environment,
+        )
+        res.on('close', () => {
+            if (!res.writableFinished) {
+                abort()
+            }
+        })
+        let requestOptions: RequestOptions = { uri, headers }
+        try {
+            requestOptions = toRequestOptions(
+                route.handler,
+                uri,
+                headers,
+                await readBody(req, bodySizeLimits(route.handler.config).requestBodySize),
+            )
+            const response = await executeRequest(
+                log,
+                context,
+                route.handler,
+                requestOptions,
+                success,
+                false,
+            )
+            recorder?.response(response)
+            res.writeHead(response.status, outgoingHeaders(response))
+            if (typeof response.body === 'object' && !Buffer.isBuffer(response.body)) {
+                await pipeline(Readable.from(response.body), res)
+            } else {
+                res.end(
+                    response.isBase64Encoded && typeof response.body === 'string'
+                        ? Buffer.from(response.body, 'base64')
+                        : response.body,
+                )
+            }
+        } catch (e) {
+            if (res.headersSent) {
+                // The response stream failed or the client went away, which is already logged.
+                res.destroy()
+            } else if (e instanceof PayloadTooLarge) {
+                // The request body was too large, so the rest of it is not read.
+                log.debug('Request END', undefined, { code: e.code })
+                const response = errorToResponse(e, client.operationId)
+                recorder?.response(response)
+                res.writeHead(response.status, {
+                    ...outgoingHeaders(response),
+                    connection: 'close',
+                }).end(response.body)
+            } else {
+                log.error('Could not serve request.', e)
+                res.writeHead(500).end()
+            }
+        } finally {
+            await flush()
+            if (recorder) {
+                try {
+                    await recorder.save(req.method ?? 'GET', requestOptions, client)
+                } catch (e) {
+                    log.error('Could not record request.', e)
+                    await log.flush()
+                }
+            }
+        }
+    }
+
+    let reloadTimer: NodeJS.Timeout | undefined
+    const watcher =
+        options.watch === false
+            ? undefined
+            : watch(absolutePath, (_, fileName) => {
+                  if (extname(fileName?.toString() ?? '') !== '.js') {
+                      return
+                  }
+                  clearTimeout(reloadTimer)
+                  reloadTimer = setTimeout(() => {
+                      load().then(
+                          () => console.log('Reloaded handlers.'),
+                          (e: unknown) => console.error('Could not reload handlers.', e),
+                      )
+                  }, 100)
+              })
+
+    await new Promise<void>(resolved => server.listen(options.port ?? 3000, resolved))
+    return {
+        port: (server.address() as AddressInfo).port,
+        close: async () => {
+            watcher?.close()
+            clearTimeout(reloadTimer)
+            stopScheduler()
+            await new Promise<void>((resolved, reject) =>
+                server.close(e => (e ? reject(e) : resolved())),
+            )
+        },
+    }
+}
+
+function outgoingHeaders(response: Response) {
+    const headers: { [key: string]: string | string[] } = { ...response.headers }
+    for (const [key, values] of Object.entries(response.multiValueHeaders ?? {})) {
+        const existing = headers[key]
+        headers[key] = [...(existing === undefined ? [] : [existing].flat()), ...values]
+    }
+    return headers
+}
+
+async function loadHandlers(absolutePath: string, generation: number) {
+    const packageJson = JSON.parse(await readFile(join(absolutePath, 'package.json'), 'utf-8')) as {
+        name: string
+        config?: PackageConfiguration
+    }
+    const files = (await readdir(absolutePath)).filter(
+        file => extname(file) === '.ts' && !file.endsWith('.d.ts'),
+    )
+    for (const file of files) {
+        const base = basename(file, '.ts')
+        setMeta(packageJson.name, base, undefined, packageJson.config)
+        // Only the handler files themselves are reloaded, not the modules they import.
+        await import(
+            pathToFileURL(join(absolutePath, base + '.js')).toString() +
+                (generation === 0 ? '' : `?reload=${generation}`)
+        )
+    }
+}
+
+function flattenHeaders(req: IncomingMessage) {
+    const headers: { [key: string]: string } = {}
+    for (const [key, value] of Object.entries(req.headers)) {
+        if (value !== undefined) {
+            headers[key] = Array.isArray(value) ? value.join(', ') : value
+        }
+    }
+    return headers
+}
+
+async function readBody(req: IncomingMessage, limit: number) {
+    const chunks: Buffer[] = []
+    let size = 0
+    for await (const chunk of req) {
+        size += (chunk as Buffer).length
+        if (size > limit) {
+            throw new PayloadTooLarge(`Request body exceeds the limit of ${limit} bytes.`)
+        }
+        chunks.push(chunk as Buffer)
+    }
+    return Buffer.concat(chunks)
+}
+
+const levelColors: { [level in LogLevel]: number } = {
+    trace: 90,
+    debug: 36,
+    info: 32,
+    warning: 33,
+    error: 31,
+    fatal: 35,
+}
+
+function consoleTransport(verbose: boolean): LogTransport {
+    const colors = process.stdout.isTTY
+    return {
+        sendEntries: (entries: LogEntry[]) => {
+            for (const entry of entries) {
+                if (entry.level === 'trace' && !verbose) {
+                    continue
+                }
+                console.log(formatEntry(entry, colors))
+            }
+            return undefined
+        },
+    }
+}
+
+function formatEntry(entry: LogEntry, colors: boolean) {
+    const { timestamp, request, response, fields } = JSON.parse(entry.json) as {
+        timestamp: string
+        request?: { method: string; uri: string }
+        response?: { status: number }
+        fields?: object
+    }
+    const level = entry.level.toUpperCase().padEnd(7)
+    let line = `${timestamp.substring(11, 23)} ${
+        colors ? `\u001B[${levelColors[entry.level]}m${level}\u001B[0m` : level
+    } ${entry.message}`
+    if (request && response && entry.message === 'Request END') {
+        line += ` ${request.method} ${request.uri} ${response.status}`
+    }
+    if (fields) {
+        line += ` ${JSON.stringify(fields)}`
+    }
+    if (entry.error) {
+        line += `\n${
+            entry.error instanceof Error ? entry.error.stack ?? '' : JSON.stringify(entry.error)
+        }`
+    }
+    return line
+}
@@ -0,0 +1,55 @@
+import type { AbortSignal } from '../context.js'
+import type { ServerSentEvent } from '../http.js'
+
+/**
+ * Writes each event as a `text/event-stream` frame until the events end or the signal is aborted.
+ */
+export async function* eventStreamFrames(
+    signal: AbortSignal,
+    events: AsyncIterable<ServerSentEvent>,
+): AsyncGenerator<string> {
+    if (signal.aborted) {
+        return
+    }
+    const iterator = events[Symbol.asyncIterator]()
+    let onAbort = () => {}
+    const aborted = new Promise<undefined>(resolve => {
+        onAbort = () => resolve(undefined)
+        signal.addEventListener('abort', onAbort, { once: true })
+    })
+    let done = false
+    try {
+        for (;;) {
+            const next = await Promise.race([iterator.next(), aborted])
+            if (!next || next.done) {
+                done = next?.done ?? false
+                return
+            }
+            yield frame(next.value)
+        }
+    } finally {
+        signal.removeEventListener('abort', onAbort)
+        if (!done) {
+            // The source may still be waiting for its next event, so do not wait for it to stop.
+            iterator.return?.().catch(() => {})
+        }
+    }
+}
+
+function frame(event: ServerSentEvent) {
+    const lines = []
+    if (event.id !== undefined) {
+        lines.push(`id: ${event.id}`)
+    }
+    if (event.event !== undefined) {
+        lines.push(`event: ${event.event}`)
+    }
+    if (event.retry !== undefined) {
+        lines.push(`retry: ${event.retry}`)
+    }
+    const data = typeof event.data === 'string' ? event.data : JSON.stringify(event.data)
+    for (const line of data.split(/\r\n|\r|\n/u)) {
+        lines.push(`data: ${line}`)
+    }
+    return `${lines.join('\n')}\n\n`
+}
@@ -0,0 +1,291 @@
+import { AssertionError } from 'node:assert'
+import { randomUUID } from 'node:crypto'
+import { isDeepStrictEqual } from 'node:util'
+import type { Context, Environment, Json } from '../context.js'
+import type { Handler } from '../http.js'
+import { ClientInfo, createContext, LogEntry, LogLevel } from './context.js'
+import {
+    bufferResponse,
+    BufferedResponse,
+    clientFromHeaders,
+    executeRequest,
+    RequestOptions,
+} from './http.js'
+import { HttpHandler, Method, routeHttpRequest } from './registry.js'
+
+export type TestRequest = {
+    /**
+     * @default 'GET'
+     */
+    readonly method?: Method
+    /**
+     * The URI of the request when invoking a handler function directly.
+     * @default '/'
+     */
+    readonly uri?: string
+    readonly headers?: { readonly [key: string]: string }
+    readonly json?: Json
+    readonly body?: string | Buffer
+    readonly isBase64Encoded?: boolean
+}
+
+export type TestOptions = {
+    /**
+     * The environment variables of the handler. The environment of the process is not used.
+     * @default {}
+     */
+    readonly env?: Environment
+    /**
+     * The current time, or a function returning it, as seen through `context.now()`.
+     */
+    readonly now?: Date | (() => Date)
+    /**
+     * The most seconds after which `context.signal` is aborted. A shorter configured timeout of the
+     * handler still applies.
+     * @default the configured timeout of the handler, or 30
+     */
+    readonly timeout?: number
+    /**
+     * Information about the client, taking precedence over what the request headers say.
+     */
+    readonly client?: ClientInfo
+}
+
+export type EmittedEvent = {
+    readonly type: string
+    readonly subject: string
+    readonly messageId?: string
+    readonly data?: Json
+    readonly eventTime: Date
+}
+
+export type SuccessResult =
+    | { readonly status: 'fulfilled' }
+    | { readonly status: 'rejected'; readonly reason: unknown }
+
+export type Invocation = {
+    readonly response: BufferedResponse
+    /**
+     * The parsed response body, if it is JSON.
+     */
+    readonly json?: Json
+    readonly logs: readonly LogEntry[]
+    readonly events: { readonly [topic: string]: readonly EmittedEvent[] }
+    /**
+     * The outcome of each function registered with `context.onSuccess` that ran.
+     */
+    readonly onSuccess: readonly SuccessResult[]
+}
+
+/**
+ * Runs a request through a handler in memory, capturing its response, log entries, emitted events
+ * and success callbacks. A path is routed to the registered handlers, while a handler function is
+ * invoked directly without any configuration.
+ */
+export function invoke(
+    path: string,
+    request?: Omit<TestRequest, 'uri'>,
+    options?: TestOptions,
+): Promise<Invocation>
+export function invoke(
+    handler: Handler,
+    request?: TestRequest,
+    options?: TestOptions,
+): Promise<Invocation>
+export async function invoke(
+    handlerOrPath: string | Handler,
+    request: TestRequest = {},
+    options: TestOptions = {},
+): Promise<Invocation> {
+    const method = request.method ?? 'GET'
+    const uri = typeof handlerOrPath === 'string' ? handlerOrPath : request.uri ?? '/'
+    const route =
+        typeof handlerOrPath === 'string'
+            ? routeHttpRequest(method, uri)
+            : { handler: directHandler(method, uri, handlerOrPath) }
+
+    const logs: LogEntry[] = []
+    const events: { [topic: string]: EmittedEvent[] } = {}
+    const onSuccess: SuccessResult[] = []
+    if (!route.handler) {
+        return {
+            response: { status: route.status, headers: route.headers },
+            logs,
+            events,
+            onSuccess,
+        }
+    }
+
+    const headers = Object.fromEntries(
+        Object.entries(request.headers ?? {}).map(([key, value]) => [key.toLowerCase(), value]),
+    )
+    const client = { ...clientFromHeaders(headers), ...options.client }
+    const { now } = options
+    const { log, context, success, flush } = createContext(
+        { ...client, operationId: client.operationId ?? randomUUID() },
+        [
+            {
+                sendEntries: entries => {
+                    logs.push(...entries)
+                    return undefined
+                },
+            },
+        ],
+        {
+            publishRate: Number.MAX_SAFE_INTEGER,
+            sendEvents: (topic, sent) => {
+                ;(events[topic] ??= []).push(
+                    ...sent.map(event => ({
+                        type: event.meta.type,
+                        subject: event.meta.subject,
+                        messageId: event.meta.id,
+                        data:
+                            event.json === undefined ? undefined : (JSON.parse(event.json) as Json),
+                        eventTime: event.eventTime,
+                    })),
+                )
+                return Promise.resolve()
+            },
+        },
+        options.timeout === undefined
+            ? { default: 30 }
+            : { default: options.timeout, cap: options.timeout },
+        new AbortController(),
+        { ...route.handler.meta, config: route.handler.config },
+        options.env ?? {},
+        now instanceof Date ? () => new Date(now) : now,
+    )
+    const recordingContext: Omit<Context, 'log'> = {
+        ...context,
+        onSuccess: fn =>
+            context.onSuccess(async () => {
+                try {
+                    await fn()
+                    onSuccess.push({ status: 'fulfilled' })
+                } catch (e) {
+                    onSuccess.push({ status: 'rejected', reason: e })
+                    throw e
+                }
+            }),
+    }
+
+    let response: BufferedResponse
+    try {
+        response = await bufferResponse(
+            await executeRequest(
+                log,
+                recordingContext,
+                route.handler,
+                requestOptions(uri, headers, request),
+                success,
+                false,
+            ),
+        )
+    } finally {
+        await flush()
+    }
+    return { response, json: jsonBody(response), logs, events, onSuccess }
+}
+
+function directHandler(method: Method, uri: string, entry: Handler): HttpHandler {
+    return {
+        meta: undefined,
+        config: undefined,
+        method,
+        pathPattern: uri.split('?')[0] ?? '/',
+        pathRegExp: /^[^?]*(\?.*)?$/u,
+        pathParameters: [],
+        entry,
+    }
+}
+
+function requestOptions(
+    uri: string,
+    headers: { readonly [key: string]: string },
+    request: TestRequest,
+): RequestOptions {
+    if (request.json !== undefined) {
+        return {
+            uri,
+            headers: { 'content-type': 'application/json', ...headers },
+            json: request.json,
+        }
+    }
+    if (request.body !== undefined) {
+        return { uri, headers, body: request.body, isBase64Encoded: request.isBase64Encoded }
+    }
+    return { uri, headers }
+}
+
+function jsonBody(response: BufferedResponse): Json | undefined {
+    if (
+        response.body === undefined ||
+        response.headers['content-encoding'] ||
+        !/json/u.test(response.headers['content-type'] ?? '')
+    ) {
+        return undefined
+    }
+    const text = Buffer.isBuffer(response.body)
+        ? response.body.toString('utf-8')
+        : response.isBase64Encoded
+        ? Buffer.from(response.body, 'base64').toString('utf-8')
+        : response.body
+    return text === '' ? undefined : (JSON.parse(text) as Json)
+}
+
+/**
+ * Asserts that the invocation emitted an event of the type on the topic, with the data if given.
+ */
+export function assertEmitted(
+    invocation: Invocation,
+    topic: string,
+    type: string,
+    data?: Json,
+): EmittedEvent {
+    const candidates = (invocation.events[topic] ?? []).filter(event => event.type === type)
+    const event = candidates.find(e => data === undefined || isDeepStrictEqual(e.data, data))
+    if (!event) {
+        throw new AssertionError({
+            message: `Expected ${type} event on ${topic}${
+                data === undefined ? '' : ' with the given data'
+            }, but ${candidates.length === 0 ? 'none was' : 'only others were'} emitted.`,
+            actual: candidates.map(e => e.data),
+            expected: data,
+            operator: 'assertEmitted',
+        })
+    }
+    return event
+}
+
+/**
+ * Asserts that the invocation emitted no events on the topic, or none of the type if given.
+ */
+export function assertNotEmitted(invocation: Invocation, topic: string, type?: string): void {
+    const emitted = (invocation.events[topic] ?? []).filter(
+        event => type === undefined || event.type === type,
+    )
+    if (emitted.length !== 0) {
+        throw new AssertionError({
+            message: `Expected no ${type === undefined ? '' : `${type} `}events on ${topic}, but ${
+                emitted.length
+            } were emitted.`,
+            actual: emitted,
+            operator: 'assertNotEmitted',
+        })
+    }
+}
+
+/**
+ * Asserts that the invocation logged an entry at the level with a message containing the text.
+ */
+export function assertLogged(invocation: Invocation, level: LogLevel, message: string): LogEntry {
+    const entry = invocation.logs.find(e => e.level === level && e.message.includes(message))
+    if (!entry) {
+        throw new AssertionError({
+            message: `Expected a ${level} log entry containing "${message}".`,
+            actual: invocation.logs.map(e => `${e.level}: ${e.message}`),
+            operator: 'assertLogged',
+        })
+    }
+    return entry
+}
@@ -0,0 +1,171 @@
+import { BadRequest } from '../errors.js'
+import type { HttpRequest, JsonSchema } from '../http.js'
+import { queryObject } from './query.js'
+import type { HttpHandler } from './registry.js'
+
+export type ValidationError = {
+    readonly in: 'body' | 'query' | 'headers'
+    readonly path: string
+    readonly message: string
+}
+
+type Location = ValidationError['in']
+
+export function validateRequest(handler: HttpHandler, request: HttpRequest) {
+    const schema = handler.config?.schema
+    if (!schema) {
+        return
+    }
+    const errors = [
+        ...(schema.body ? validate('body', schema.body, request.body, '') : []),
+        ...(schema.query
+            ? validate(
+                  'query',
+                  schema.query,
+                  coerce(schema.query, queryObject(request.url.searchParams)),
+                  '',
+              )
+            : []),
+        ...(schema.headers
+            ? validate('headers', schema.headers, coerce(schema.headers, request.headers), '')
+            : []),
+    ]
+    if (errors.length !== 0) {
+        throw new BadRequest('Invalid request.', {
+            code: 'invalid-request',
+            extensions: { errors },
+        })
+    }
+}
+
+function coerce(schema: JsonSchema, values: { readonly [key: string]: unknown }) {
+    return Object.fromEntries(
+        Object.entries(values).map(([key, value]) => {
+            const type = schema.properties?.[key]?.type
+            if (typeof value !== 'string') {
+                return [key, value]
+            }
+            if ((type === 'number' || type === 'integer') && value.trim() !== '') {
+                const number = Number(value)
+                return [key, Number.isNaN(number) ? value : number]
+            }
+            if (type === 'boolean' && (value === 'true' || value === 'false')) {
+                return [key, value === 'true']
+            }
+            return [key, value]
+        }),
+    )
+}
+
+function typeOf(value: unknown) {
+    if (value === null) {
+        return 'null'
+    }
+    if (Array.isArray(value)) {
+        return 'array'
+    }
+    return typeof value
+}
+
+function matchesType(type: string, value: unknown) {
+    switch (type) {
+        case 'integer':
+            return Number.isInteger(value)
+        case 'number':
+            return typeof value === 'number' && Number.isFinite(value)
+        default:
+            return typeOf(value) === type
+    }
+}
+
+function validate(
+    location: Location,
+    schema: JsonSchema,
+    value: unknown,
+    path: string,
+): ValidationError[] {
+    const error = (message: string): ValidationError[] => [{ in: location, path, message }]
+
+    if (value === undefined) {
+        return error('is required')
+    }
+    if (schema.type) {
+        const types = typeof schema.type === 'string' ? [schema.type] : schema.type
+        if (!types.some(t => matchesType(t, value))) {
+            return error(`should be ${types.join(' or ')}`)
+        }
+    }
+    if (schema.const !== undefined && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+        return error(`should be ${JSON.stringify(schema.const)}`)
+    }
+    if (schema.enum && !schema.enum.some(e => JSON.stringify(e) === JSON.stringify(value))) {
+        return error(`should be one of ${schema.enum.map(e => JSON.stringify(e)).join(', ')}`)
+    }
+
+    if (typeof value === 'string') {
+        if (schema.minLength !== undefined && value.length < schema.minLength) {
+            return error(`should be at least ${schema.minLength} characters`)
+        }
+        if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+            return error(`should be at most ${schema.maxLength} characters`)
+        }
+        if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+            return error(`should match ${schema.pattern}`)
+        }
+    }
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) {
+            return error(`should be at least ${schema.minimum}`)
+        }
+        if (schema.maximum !== undefined && value > schema.maximum) {
+            return error(`should be at most ${schema.maximum}`)
+        }
+        if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+            return error(`should be greater than ${schema.exclusiveMinimum}`)
+        }
+        if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+            return error(`should be less than ${schema.exclusiveMaximum}`)
+        }
+    }
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+            return error(`should have at least ${schema.minItems} items`)
+        }
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+            return error(`should have at most ${schema.maxItems} items`)
+        }
+        const { items } = schema
+        if (items) {
+            return value.flatMap((item, ix) => validate(location, items, item, `${path}/${ix}`))
+        }
+    } else if (typeOf(value) === 'object') {
+        return validateObject(location, schema, value as { [key: string]: unknown }, path)
+    }
+    return []
+}
+
+function validateObject(
+    location: Location,
+    schema: JsonSchema,
+    value: { [key: string]: unknown },
+    path: string,
+) {
+    const properties = schema.properties ?? {}
+    const errors = (schema.required ?? [])
+        .filter(name => value[name] === undefined)
+        .map(name => ({ in: location, path: `${path}/${name}`, message: 'is required' }))
+    for (const [name, property] of Object.entries(value)) {
+        const propertyPath = `${path}/${name}`
+        const propertySchema = properties[name]
+        if (propertySchema) {
+            if (property !== undefined) {
+                errors.push(...validate(location, propertySchema, property, propertyPath))
+            }
+        } else if (schema.additionalProperties === false) {
+            errors.push({ in: location, path: propertyPath, message: 'is not allowed' })
+        } else if (typeof schema.additionalProperties === 'object') {
+            errors.push(...validate(location, schema.additionalProperties, property, propertyPath))
+        }
+    }
+    return errors
+}
@@ -1,8 +1,13 @@
-import type { UrlWithParsedQuery } from 'node:url'
-import { Context, HandlerConfiguration, Json } from './context.js'
-import { registerHttpHandler } from './host/registry.js'
+import type { JsonWebKey } from 'node:crypto'
+import { Context, Environment, HandlerConfiguration, Json } from './context.js'
+import { isNotModified, validatorHeaders } from './host/conditional.js'
+import { registerHealthCheck, registerHttpHandler, registerMiddleware } from './host/registry.js'
+import { eventStreamFrames } from './host/sse.js'
 
 export * from './context.js'
+export * from './errors.js'
+export { FileIdempotencyStore, MemoryIdempotencyStore } from './host/idempotency.js'
+export { TokenBucketRateLimitStore } from './host/rate-limit.js'
 
 export type ResponseHeaders = {
     [key: string]: string
@@ -11,71 +16,662 @@ export type ResponseHeaders = {
 export type FullResult = {
     headers?: ResponseHeaders
     status?: number
+    /**
+     * A string, a buffer, a stream of string or buffer chunks, such as a `Readable`, or anything
+     * else to be sent as JSON. Streams are sent as they are read where the host supports it.
+     */
     body?: unknown
     isBase64Encoded?: boolean
+    /**
+     * Cookies to set, each sent as its own `set-cookie` header.
+     */
+    cookies?: readonly Cookie[]
+}
+
+export type Cookie = {
+    readonly name: string
+    readonly value: string
+    readonly domain?: string
+    readonly path?: string
+    readonly expires?: Date
+    /**
+     * In seconds. Zero or less deletes the cookie.
+     */
+    readonly maxAge?: number
+    readonly httpOnly?: boolean
+    readonly secure?: boolean
+    readonly sameSite?: 'Strict' | 'Lax' | 'None'
 }
 
 export type Result = void | string | FullResult
 
-export type HttpRequest = {
+/**
+ * A Server-Sent Event. Data that is not a string is sent as JSON.
+ */
+export type ServerSentEvent = {
+    readonly data: Json
+    readonly event?: string
+    readonly id?: string
+    readonly retry?: number
+}
+
+type PathParameterNames<Path extends string> = Path extends `${infer Step}/${infer Rest}`
+    ? PathParameterName<Step> | PathParameterNames<Rest>
+    : PathParameterName<Path>
+
+type PathParameterName<Step extends string> = Step extends `:${infer Name}` ? Name : never
+
+/**
+ * The named parameters of a path pattern, e.g. `userId` and `orderId` for `/users/:userId/orders/:orderId`.
+ * Each parameter is a whole step of letters, digits and underscores.
+ */
+export type PathParameters<Path extends string> = string extends Path
+    ? { readonly [name: string]: string }
+    : { readonly [Name in PathParameterNames<Path>]: string }
+
+/**
+ * An `application/x-www-form-urlencoded` body. Repeated fields become arrays.
+ */
+export type FormBody = { readonly [name: string]: string | readonly string[] }
+
+export type FilePart = {
+    readonly name: string
+    readonly fileName?: string
+    readonly contentType: string
+    readonly data: Buffer
+}
+
+/**
+ * A `multipart/form-data` body.
+ */
+export type MultipartBody = {
+    readonly fields: FormBody
+    readonly files: readonly FilePart[]
+}
+
+/**
+ * The request body, parsed according to its content type: JSON, form and multipart bodies are parsed, text bodies are
+ * strings and other bodies are buffers.
+ */
+export type RequestBody = Json | string | Buffer | MultipartBody
+
+/**
+ * Typed accessors for query parameters. Missing parameters are `undefined`; malformed ones throw a
+ * 400 Bad Request.
+ */
+export type Query = {
+    string(name: string): string | undefined
+    int(name: string, range?: { readonly min?: number; readonly max?: number }): number | undefined
+    bool(name: string): boolean | undefined
+    /**
+     * All values of a repeated or comma-separated parameter.
+     */
+    list(name: string): string[]
+}
+
+export type HttpRequest<
+    Params extends PathParameters<string> = PathParameters<string>,
+    Body = RequestBody | undefined,
+> = {
     readonly rawUrl: string
-    readonly url: Readonly<UrlWithParsedQuery> & { pathStepAt: (index: number) => string }
+    readonly url: Readonly<URL> & {
+        /**
+         * The query parameters by name, with repeated parameters as arrays.
+         * @deprecated Use `query`, which also converts and checks values.
+         */
+        readonly query: { readonly [name: string]: string | string[] | undefined }
+        pathStepAt: (index: number) => string
+    }
+    readonly query: Query
+    readonly params: Params
     readonly headers: Readonly<ResponseHeaders>
-    readonly body?: Json | string
+    /**
+     * The cookies of the `cookie` header, by name.
+     */
+    readonly cookies: { readonly [name: string]: string }
+    readonly body: Body
+}
+
+type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null'
+
+/**
+ * The subset of JSON Schema used to validate requests.
+ */
+export type JsonSchema = {
+    readonly type?: JsonSchemaType | readonly JsonSchemaType[]
+    readonly title?: string
+    readonly description?: string
+    readonly enum?: readonly Json[]
+    readonly const?: Json
+    readonly properties?: { readonly [name: string]: JsonSchema }
+    readonly required?: readonly string[]
+    readonly additionalProperties?: boolean | JsonSchema
+    readonly items?: JsonSchema
+    readonly minItems?: number
+    readonly maxItems?: number
+    readonly minLength?: number
+    readonly maxLength?: number
+    readonly pattern?: string
+    readonly format?: string
+    readonly minimum?: number
+    readonly maximum?: number
+    readonly exclusiveMinimum?: number
+    readonly exclusiveMaximum?: number
+}
+
+type RequiredProperties<Schema> = Schema extends { readonly required: readonly (infer Name)[] }
+    ? string extends Name
+        ? never
+        : Name & string
+    : never
+
+type ObjectFromSchema<Properties, Required extends string> = {
+    readonly [Name in keyof Properties & Required]: FromSchema<Properties[Name]>
+} & {
+    readonly [Name in Exclude<keyof Properties, Required>]?: FromSchema<Properties[Name]>
+}
+
+/**
+ * The type of values valid according to a schema. Declare schemas `as const` to keep the literal types needed for inference.
+ */
+export type FromSchema<Schema> = Schema extends { readonly const: infer Value }
+    ? Value
+    : Schema extends { readonly enum: readonly (infer Value)[] }
+    ? Value
+    : Schema extends { readonly type: 'string' }
+    ? string
+    : Schema extends { readonly type: 'number' | 'integer' }
+    ? number
+    : Schema extends { readonly type: 'boolean' }
+    ? boolean
+    : Schema extends { readonly type: 'null' }
+    ? null
+    : Schema extends { readonly type: 'array'; readonly items: infer Items }
+    ? readonly FromSchema<Items>[]
+    : Schema extends { readonly type: 'array' }
+    ? readonly Json[]
+    : Schema extends { readonly type: 'object'; readonly properties: infer Properties }
+    ? ObjectFromSchema<Properties, RequiredProperties<Schema>>
+    : Json
+
+type BodyOf<Config> = Config extends { readonly schema: { readonly body: infer Schema } }
+    ? FromSchema<Schema>
+    : RequestBody | undefined
+
+export type CacheControl = {
+    readonly public?: boolean
+    readonly private?: boolean
+    readonly noCache?: boolean
+    readonly noStore?: boolean
+    readonly mustRevalidate?: boolean
+    readonly immutable?: boolean
+    /**
+     * In seconds.
+     */
+    readonly maxAge?: number
+    /**
+     * In seconds.
+     */
+    readonly sharedMaxAge?: number
+    /**
+     * In seconds.
+     */
+    readonly staleWhileRevalidate?: number
+}
+
+/**
+ * A response as stored for replay, with binary bodies base64 encoded.
+ */
+export type StoredResponse = {
+    readonly status: number
+    readonly headers: { readonly [key: string]: string }
+    readonly multiValueHeaders?: { readonly [key: string]: readonly string[] }
+    readonly body?: string
+    readonly isBase64Encoded?: boolean
+}
+
+/**
+ * A claimed idempotency key. The response is missing while the first request is in progress.
+ */
+export type IdempotencyRecord = {
+    readonly fingerprint: string
+    readonly response?: StoredResponse
+}
+
+export type IdempotencyStore = {
+    /**
+     * Atomically claims the key for a request with the given fingerprint, for `ttl` seconds. Returns
+     * the existing record, and claims nothing, if the key is already claimed.
+     */
+    claim(key: string, fingerprint: string, ttl: number): Promise<IdempotencyRecord | undefined>
+    /**
+     * Stores the response of a claimed key for `ttl` seconds.
+     */
+    complete(key: string, record: IdempotencyRecord, ttl: number): Promise<void>
+    /**
+     * Releases a claimed key, e.g. because the request failed and may be retried.
+     */
+    release(key: string): Promise<void>
+}
+
+export type RateLimitState = {
+    readonly allowed: boolean
+    readonly limit: number
+    readonly remaining: number
+    /**
+     * Seconds until the full allowance is available again.
+     */
+    readonly reset: number
+    /**
+     * Seconds until the next request is allowed, if this one was not.
+     */
+    readonly retryAfter: number
+}
+
+export type RateLimitStore = {
+    /**
+     * Takes one request from the key's allowance of `limit` requests per `window` seconds.
+     */
+    take(key: string, limit: number, window: number): Promise<RateLimitState>
+}
+
+export type JwtAlgorithm = 'HS256' | 'RS256' | 'ES256'
+
+export type JwtKey = {
+    readonly kid?: string
+    readonly algorithm: JwtAlgorithm
+    /**
+     * The shared secret or an `oct` JSON Web Key for HS256, or a PEM encoded or JSON Web Key public key for RS256 and
+     * ES256.
+     */
+    readonly key: string | Buffer | JsonWebKey
+}
+
+export type JsonWebKeySet = {
+    readonly keys: readonly (JsonWebKey & {
+        readonly kid?: string
+        readonly alg?: string
+        readonly use?: string
+    })[]
+}
+
+export type AuthConfiguration = {
+    /**
+     * Keys to verify tokens with, or a function returning them from the environment.
+     */
+    readonly keys?: readonly JwtKey[] | ((env: Environment) => readonly JwtKey[])
+    /**
+     * A JSON Web Key Set to verify tokens with, as an HTTPS URL or a function loading it. The keys are cached for ten
+     * minutes, and reloaded when a token refers to an unknown key.
+     */
+    readonly jwks?: string | (() => Promise<JsonWebKeySet>)
+    readonly issuer?: string | readonly string[]
+    readonly audience?: string | readonly string[]
+    /**
+     * Scopes, from the `scope` or `scp` claim, the token must have all of.
+     */
+    readonly scopes?: readonly string[]
+    /**
+     * Roles, from the `roles` claim, the token must have at least one of.
+     */
+    readonly roles?: readonly string[]
+    /**
+     * Let requests without an `authorization` header through, without a principal.
+     * @default false
+     */
+    readonly optional?: boolean
+    /**
+     * Seconds of clock skew to allow when checking `exp` and `nbf`.
+     * @default 60
+     */
+    readonly clockTolerance?: number
+}
+
+export type CorsConfiguration = {
+    /**
+     * The origins allowed to access the endpoint cross-origin, or '*' for any origin.
+     */
+    readonly origins: string | readonly string[]
+    /**
+     * The request headers allowed in cross-origin requests. Defaults to the headers requested in the preflight.
+     */
+    readonly allowedHeaders?: readonly string[]
+    /**
+     * The response headers exposed to cross-origin callers.
+     */
+    readonly exposedHeaders?: readonly string[]
+    /**
+     * The number of seconds a preflight response can be cached.
+     */
+    readonly maxAge?: number
+    /**
+     * A boolean indicating whether cross-origin requests may include credentials such as cookies.
+     * Requires an explicit list of origins.
+     * @default false
+     */
+    readonly credentials?: boolean
 }
 
 export type HttpHandlerConfiguration = HandlerConfiguration & {
     /**
-     * A string identifying which domains can access the endpoint cross-origin.
+     * A string identifying which domains can access the endpoint cross-origin, or a full CORS configuration.
+     * Preflight requests are answered automatically for paths with a CORS configuration.
+     * @default undefined
+     */
+    readonly cors?: string | CorsConfiguration
+    /**
+     * HTTP caching of GET and HEAD responses. Responses with an `etag` or `last-modified` header matching the request's
+     * `if-none-match` or `if-modified-since` are turned into a 304 Not Modified without a body.
+     * @default undefined
+     */
+    readonly caching?: {
+        /**
+         * Compute a strong ETag from the response body when the handler does not supply one.
+         * @default false
+         */
+        readonly etag?: boolean
+        /**
+         * The `cache-control` header of successful responses, unless the handler sets one.
+         * @default undefined
+         */
+        readonly cacheControl?: string | CacheControl
+    }
+    /**
+     * Compression of response bodies larger than the threshold, in bytes, with brotli or gzip as the request's
+     * `accept-encoding` allows. Set to `false` for content that is already compressed.
+     * @default { threshold: 1024 }
+     */
+    readonly compression?: false | { readonly threshold?: number }
+    /**
+     * Body size limits, in bytes. Larger requests are rejected with a 413 Payload Too Large. Larger responses are logged as
+     * errors and replaced by a 500 Internal Server Error, unless `offloadResponse` is given. Streamed responses are not
+     * limited.
+     */
+    readonly limits?: {
+        /**
+         * @default 6291456
+         */
+        readonly requestBodySize?: number
+        /**
+         * Binary and compressed bodies count as their base64 encoding, as returned from Lambda.
+         * @default 6291456
+         */
+        readonly responseBodySize?: number
+        /**
+         * Called with a response that is too large to send, e.g. to store it elsewhere and redirect to it.
+         * @default undefined
+         */
+        readonly offloadResponse?: (
+            context: Context,
+            response: {
+                readonly status: number
+                readonly headers: ResponseHeaders
+                readonly body: Buffer
+            },
+        ) => Promise<Result> | Result
+    }
+    /**
+     * Replays the stored response to repeated requests with the same `idempotency-key` header from the same principal, or
+     * the same client id on routes without authentication, without running the handler again. Requests with a key but
+     * neither are rejected with a 400 Bad Request. Repeats while the first request is in progress are rejected with a 409
+     * Conflict, and repeats with a different request with a 422 Unprocessable Entity. Server errors are not stored, so
+     * they can be retried, and cookies set by the first response are not replayed.
+     * @default undefined
+     */
+    readonly idempotency?: {
+        readonly store: IdempotencyStore
+        /**
+         * The number of seconds to keep responses for.
+         * @default 86400
+         */
+        readonly ttl?: number
+    }
+    /**
+     * Limits the number of requests each client can make. Requests over the limit are rejected with a 429 Too Many Requests
+     * and a `retry-after` header. Responses carry `ratelimit-limit`, `ratelimit-remaining` and `ratelimit-reset` headers.
      * @default undefined
      */
-    readonly cors?: string
+    readonly rateLimit?: {
+        readonly requests: number
+        /**
+         * In seconds.
+         */
+        readonly window: number
+        /**
+         * What identifies a client: the subject of the authenticated principal, falling back to the IP address, the IP
+         * address, or a custom key. Client ids are not used, as they are not verified. The IP address is the one the
+         * host trusts: the source IP reported by API Gateway, or the socket address in the development server. Requests
+         * without a key, such as when the custom key function returns `undefined`, are not limited.
+         * @default 'principal'
+         */
+        readonly key?:
+            | 'principal'
+            | 'ip'
+            | ((request: HttpRequest, context: Context) => string | undefined)
+        /**
+         * Where to count requests.
+         * @default an in-process token bucket
+         */
+        readonly store?: RateLimitStore
+    }
+    /**
+     * Verifies a JWT bearer token in the `authorization` header and makes its identity available as `context.principal`.
+     * Missing or invalid tokens, including tokens without a `sub` claim, are rejected with a 401 Unauthorized, and
+     * missing scopes or roles with a 403 Forbidden.
+     * @default undefined
+     */
+    readonly auth?: AuthConfiguration
+    /**
+     * Limits for `multipart/form-data` request bodies. Requests exceeding them are rejected with a 413 Payload Too Large.
+     */
+    readonly multipart?: {
+        /**
+         * The maximum size of each file, in bytes.
+         * @default 10485760
+         */
+        readonly maxFileSize?: number
+        /**
+         * The maximum number of files.
+         * @default 10
+         */
+        readonly maxFiles?: number
+    }
+    /**
+     * Middleware to run around the handler, after any package-wide middleware registered with `use`.
+     * @default undefined
+     */
+    readonly middleware?: readonly Middleware[]
+    /**
+     * JSON Schemas the request body, query and headers must conform to. Invalid requests are rejected with a 400 Bad Request
+     * listing the validation errors, before the handler runs. Query and header values are converted to numbers or booleans
+     * where the schema says so before validation.
+     * @default undefined
+     */
+    readonly schema?: {
+        readonly body?: JsonSchema
+        readonly query?: JsonSchema
+        readonly headers?: JsonSchema
+        /**
+         * The schema of successful response bodies. Used for documentation only.
+         */
+        readonly response?: JsonSchema
+    }
+}
+
+export type Handler<
+    Params extends PathParameters<string> = PathParameters<string>,
+    Body = RequestBody | undefined,
+> = (context: Context, request: HttpRequest<Params, Body>) => Promise<Result> | Result
+
+/**
+ * Runs around a handler. Call `next` to continue down the chain, optionally with a modified request
+ * or context, or return a result without calling it to short-circuit.
+ */
+export type Middleware = (
+    context: Context,
+    request: HttpRequest,
+    next: (request?: HttpRequest, context?: Context) => Promise<Result>,
+) => Promise<Result> | Result
+
+/**
+ * Registers middleware to run around every HTTP handler in the package, in registration order.
+ */
+export function use(middleware: Middleware): void {
+    registerMiddleware(middleware)
+}
+
+export type HealthCheck = (context: Context) => Promise<void> | void
+
+export type HealthCheckConfiguration = {
+    /**
+     * The time in seconds the check may take before it is considered failed.
+     * @default 5
+     */
+    readonly timeout?: number
+    /**
+     * Report the message of the error a failing check throws, rather than just `failed`. The report
+     * is public, so only enable this for messages that reveal nothing sensitive.
+     * @default false
+     */
+    readonly exposeError?: boolean
+}
+
+export type HealthCheckResult = {
+    readonly status: 'pass' | 'fail'
+    /**
+     * The time the check took, in milliseconds.
+     */
+    readonly latency: number
+    /**
+     * Why the check failed: `timeout`, `failed` or, if the check exposes its errors, the message of
+     * the error it threw.
+     */
+    readonly error?: string
+}
+
+/**
+ * The body of the built-in `GET /health` endpoint.
+ */
+export type HealthReport = {
+    readonly status: 'pass' | 'fail'
+    readonly checks: { readonly [name: string]: HealthCheckResult }
 }
 
-export type Handler = (context: Context, request: HttpRequest) => Promise<Result> | Result
+/**
+ * Registers a check of a dependency, such as a database or a downstream service, run by the
+ * built-in `GET /health` endpoint. A check fails if it throws or does not finish within its
+ * timeout, in which case `context.signal` is aborted and the error is logged. The endpoint responds
+ * with a `HealthReport`, with 200 OK if all checks pass and 503 Service Unavailable otherwise. It
+ * takes precedence over wildcard routes matching `/health`, and registering a GET or HEAD handler
+ * for `/health` as well throws.
+ */
+export function healthCheck(name: string, fn: HealthCheck): void
+export function healthCheck(name: string, config: HealthCheckConfiguration, fn: HealthCheck): void
+export function healthCheck(
+    name: string,
+    configOrCheck: HealthCheckConfiguration | HealthCheck,
+    fn?: HealthCheck,
+): void {
+    registerHealthCheck(name, configOrCheck, fn)
+}
+
+/**
+ * A `text/event-stream` result sending each event as it arrives. The stream ends when the events
+ * do, or when `context.signal` is aborted because the client disconnected or the handler timed out.
+ */
+export function serverSentEvents(
+    context: Context,
+    events: AsyncIterable<ServerSentEvent>,
+    headers?: ResponseHeaders,
+): FullResult {
+    return {
+        headers: {
+            'content-type': 'text/event-stream',
+            'cache-control': 'no-cache',
+            ...headers,
+        },
+        body: eventStreamFrames(context.signal, events),
+    }
+}
+
+/**
+ * A 304 Not Modified result if the client already has the current version of a resource, so the
+ * handler can skip producing it. Returns `undefined` if the client needs the full response, which
+ * should then carry the same `etag` and `last-modified` headers.
+ */
+export function notModified(
+    request: Pick<HttpRequest, 'headers'>,
+    validators: { readonly etag?: string; readonly lastModified?: Date },
+): FullResult | undefined {
+    const headers = validatorHeaders(validators)
+    if (!isNotModified(request.headers, headers)) {
+        return undefined
+    }
+    return { status: 304, headers }
+}
 
-export function get(path: string, fn: Handler): void
-export function get(path: string, config: HttpHandlerConfiguration, fn: Handler): void
-export function get(
-    path: string,
-    configOrHandler: HttpHandlerConfiguration | Handler,
-    fn?: Handler,
+export function get<Path extends string>(path: Path, fn: Handler<PathParameters<Path>>): void
+export function get<Path extends string, Config extends HttpHandlerConfiguration>(
+    path: Path,
+    config: Config,
+    fn: Handler<PathParameters<Path>, BodyOf<Config>>,
+): void
+export function get<Path extends string>(
+    path: Path,
+    configOrHandler: HttpHandlerConfiguration | Handler<PathParameters<Path>, never>,
+    fn?: Handler<PathParameters<Path>, never>,
 ): void {
     registerHttpHandler('GET', path, configOrHandler, fn)
 }
-export function post(path: string, fn: Handler): void
-export function post(path: string, config: HttpHandlerConfiguration, fn: Handler): void
-export function post(
-    path: string,
-    configOrHandler: HttpHandlerConfiguration | Handler,
-    fn?: Handler,
+export function post<Path extends string>(path: Path, fn: Handler<PathParameters<Path>>): void
+export function post<Path extends string, Config extends HttpHandlerConfiguration>(
+    path: Path,
+    config: Config,
+    fn: Handler<PathParameters<Path>, BodyOf<Config>>,
+): void
+export function post<Path extends string>(
+    path: Path,
+    configOrHandler: HttpHandlerConfiguration | Handler<PathParameters<Path>, never>,
+    fn?: Handler<PathParameters<Path>, never>,
 ): void {
     registerHttpHandler('POST', path, configOrHandler, fn)
 }
-export function put(path: string, fn: Handler): void
-export function put(path: string, config: HttpHandlerConfiguration, fn: Handler): void
-export function put(
-    path: string,
-    configOrHandler: HttpHandlerConfiguration | Handler,
-    fn?: Handler,
+export function put<Path extends string>(path: Path, fn: Handler<PathParameters<Path>>): void
+export function put<Path extends string, Config extends HttpHandlerConfiguration>(
+    path: Path,
+    config: Config,
+    fn: Handler<PathParameters<Path>, BodyOf<Config>>,
+): void
+export function put<Path extends string>(
+    path: Path,
+    configOrHandler: HttpHandlerConfiguration | Handler<PathParameters<Path>, never>,
+    fn?: Handler<PathParameters<Path>, never>,
 ): void {
     registerHttpHandler('PUT', path, configOrHandler, fn)
 }
-export function patch(path: string, fn: Handler): void
-export function patch(path: string, config: HttpHandlerConfiguration, fn: Handler): void
-export function patch(
-    path: string,
-    configOrHandler: HttpHandlerConfiguration | Handler,
-    fn?: Handler,
+export function patch<Path extends string>(path: Path, fn: Handler<PathParameters<Path>>): void
+export function patch<Path extends string, Config extends HttpHandlerConfiguration>(
+    path: Path,
+    config: Config,
+    fn: Handler<PathParameters<Path>, BodyOf<Config>>,
+): void
+export function patch<Path extends string>(
+    path: Path,
+    configOrHandler: HttpHandlerConfiguration | Handler<PathParameters<Path>, never>,
+    fn?: Handler<PathParameters<Path>, never>,
 ): void {
     registerHttpHandler('PATCH', path, configOrHandler, fn)
 }
-export function del(path: string, fn: Handler): void
-export function del(path: string, config: HttpHandlerConfiguration, fn: Handler): void
-export function del(
-    path: string,
-    configOrHandler: HttpHandlerConfiguration | Handler,
-    fn?: Handler,
+export function del<Path extends string>(path: Path, fn: Handler<PathParameters<Path>>): void
+export function del<Path extends string, Config extends HttpHandlerConfiguration>(
+    path: Path,
+    config: Config,
+    fn: Handler<PathParameters<Path>, BodyOf<Config>>,
+): void
+export function del<Path extends string>(
+    path: Path,
+    configOrHandler: HttpHandlerConfiguration | Handler<PathParameters<Path>, never>,
+    fn?: Handler<PathParameters<Path>, never>,
 ): void {
     registerHttpHandler('DELETE', path, configOrHandler, fn)
 }
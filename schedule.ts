@@ -0,0 +1,20 @@
+import { Context, HandlerConfiguration } from './context.js'
+import { registerScheduleHandler } from './host/registry.js'
+
+export * from './context.js'
+
+export type Handler = (context: Context, triggerTime: Date) => Promise<void> | void
+
+/**
+ * Registers a handler to run on a schedule. The cron expression has five fields (minute, hour,
+ * day of month, month, day of week) and is evaluated in UTC.
+ */
+export function schedule(cronExpression: string, fn: Handler): void
+export function schedule(cronExpression: string, config: HandlerConfiguration, fn: Handler): void
+export function schedule(
+    cronExpression: string,
+    configOrHandler: HandlerConfiguration | Handler,
+    fn?: Handler,
+): void {
+    registerScheduleHandler(cronExpression, configOrHandler, fn)
+}
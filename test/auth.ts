@@ -0,0 +1,161 @@
+import assert from 'node:assert/strict'
+import { createHmac, generateKeyPairSync, KeyObject, sign } from 'node:crypto'
+import type { Json } from '../context.js'
+import type { AuthConfiguration } from '../http.js'
+import { authenticate, authorize } from '../host/auth.js'
+
+const secret = 'a shared secret'
+const rsa = generateKeyPairSync('rsa', { modulusLength: 2048 })
+const ec = generateKeyPairSync('ec', { namedCurve: 'P-256' })
+const rsaPem = rsa.publicKey.export({ format: 'pem', type: 'spki' }).toString()
+
+function encode(value: Json) {
+    return Buffer.from(JSON.stringify(value)).toString('base64url')
+}
+
+function hs256(claims: { [name: string]: Json }, key: string | Buffer = secret) {
+    const signedPart = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(claims)}`
+    return `${signedPart}.${createHmac('sha256', key).update(signedPart).digest('base64url')}`
+}
+
+function asymmetric(
+    alg: 'RS256' | 'ES256',
+    key: KeyObject,
+    claims: { [name: string]: Json },
+    kid?: string,
+) {
+    const signedPart = `${encode({ alg, typ: 'JWT', ...(kid && { kid }) })}.${encode(claims)}`
+    const signature = sign(
+        'sha256',
+        Buffer.from(signedPart),
+        alg === 'ES256' ? { key, dsaEncoding: 'ieee-p1363' } : key,
+    )
+    return `${signedPart}.${signature.toString('base64url')}`
+}
+
+function bearer(token: string) {
+    return { authorization: `Bearer ${token}` }
+}
+
+const now = Math.floor(Date.now() / 1000)
+const valid = { sub: 'user-1', iss: 'issuer', aud: 'api', exp: now + 600, scope: 'orders:read' }
+
+const hsConfig: AuthConfiguration = {
+    keys: env => [{ algorithm: 'HS256', key: env.JWT_SECRET ?? '' }],
+    issuer: 'issuer',
+    audience: ['api', 'other'],
+    scopes: ['orders:read'],
+}
+const env = { JWT_SECRET: secret }
+
+async function rejects(
+    config: AuthConfiguration,
+    token: string | undefined,
+    message: string,
+    statusCode = 401,
+) {
+    await assert.rejects(
+        (async () => {
+            const principal = await authenticate(config, env, token ? bearer(token) : {})
+            authorize(config, principal)
+        })(),
+        { statusCode, message },
+    )
+}
+
+describe('auth', () => {
+    it('accepts valid HS256 tokens', async () => {
+        const principal = await authenticate(hsConfig, env, bearer(hs256(valid)))
+        assert.equal(principal?.subject, 'user-1')
+        assert.deepEqual(principal?.scopes, ['orders:read'])
+        authorize(hsConfig, principal)
+    })
+
+    it('accepts oct JSON Web Keys', async () => {
+        const principal = await authenticate(
+            {
+                keys: [
+                    {
+                        algorithm: 'HS256',
+                        key: { kty: 'oct', k: Buffer.from(secret).toString('base64url') },
+                    },
+                ],
+            },
+            {},
+            bearer(hs256(valid)),
+        )
+        assert.equal(principal?.subject, 'user-1')
+    })
+
+    it('accepts RS256 and ES256 tokens from a key set', async () => {
+        const config: AuthConfiguration = {
+            jwks: () =>
+                Promise.resolve({
+                    keys: [
+                        { ...rsa.publicKey.export({ format: 'jwk' }), kid: 'rsa' },
+                        { ...ec.publicKey.export({ format: 'jwk' }), kid: 'ec' },
+                    ],
+                }),
+            roles: ['admin'],
+        }
+        for (const token of [
+            asymmetric('RS256', rsa.privateKey, { sub: 'user-2', roles: ['admin'] }, 'rsa'),
+            asymmetric('ES256', ec.privateKey, { sub: 'user-3', roles: ['admin'] }, 'ec'),
+        ]) {
+            const principal = await authenticate(config, {}, bearer(token))
+            authorize(config, principal)
+            assert.deepEqual(principal?.roles, ['admin'])
+        }
+    })
+
+    it('rejects missing tokens unless optional', async () => {
+        await rejects(hsConfig, undefined, 'Missing bearer token.')
+        assert.equal(await authenticate({ ...hsConfig, optional: true }, env, {}), undefined)
+    })
+
+    it('rejects bad signatures', async () => {
+        await rejects(hsConfig, hs256(valid, 'another secret'), 'Invalid token signature.')
+        const other = generateKeyPairSync('ec', { namedCurve: 'P-256' })
+        await rejects(
+            { keys: [{ algorithm: 'ES256', key: ec.publicKey.export({ format: 'jwk' }) }] },
+            asymmetric('ES256', other.privateKey, valid),
+            'Invalid token signature.',
+        )
+    })
+
+    it('rejects tokens whose algorithm does not match the key type', async () => {
+        await rejects(
+            { keys: [{ algorithm: 'RS256', key: rsaPem }] },
+            hs256(valid, rsaPem),
+            'Unknown token key or algorithm.',
+        )
+    })
+
+    it('rejects expired and not yet valid tokens', async () => {
+        await rejects(hsConfig, hs256({ ...valid, exp: now - 120 }), 'Token has expired.')
+        await rejects(hsConfig, hs256({ ...valid, nbf: now + 120 }), 'Token is not yet valid.')
+        await authenticate(hsConfig, env, bearer(hs256({ ...valid, exp: now - 30 })))
+    })
+
+    it('rejects unexpected issuers and audiences', async () => {
+        await rejects(hsConfig, hs256({ ...valid, iss: 'someone' }), 'Unexpected token issuer.')
+        await rejects(hsConfig, hs256({ ...valid, iss: ['issuer'] }), 'Unexpected token issuer.')
+        await rejects(hsConfig, hs256({ ...valid, aud: 'else' }), 'Unexpected token audience.')
+        await authenticate(hsConfig, env, bearer(hs256({ ...valid, aud: ['else', 'other'] })))
+    })
+
+    it('rejects tokens missing required scopes', async () => {
+        await rejects(
+            hsConfig,
+            hs256({ ...valid, scope: 'orders:write' }),
+            'Missing scopes: orders:read.',
+            403,
+        )
+    })
+
+    it('rejects tokens without a subject', async () => {
+        const { sub, ...anonymous } = valid
+        await rejects(hsConfig, hs256(anonymous), 'Token has no subject.')
+        await rejects(hsConfig, hs256({ ...anonymous, sub: '' }), 'Token has no subject.')
+    })
+})
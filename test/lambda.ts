@@ -0,0 +1,104 @@
+import assert from 'node:assert/strict'
+import { readFile } from 'node:fs/promises'
+import { post } from '../http.js'
+import { toRequestOptions } from '../host/http.js'
+import {
+    ApiGatewayEvent,
+    ApiGatewayOptions,
+    ApiGatewayV1Event,
+    ApiGatewayV2Event,
+    fromApiGatewayEvent,
+    handleApiGatewayEvent,
+} from '../host/lambda.js'
+import { routeHttpRequest } from '../host/registry.js'
+
+post('/orders/:id', (_, request) => ({
+    status: 201,
+    headers: { 'x-order-id': request.params.id },
+    cookies: [
+        { name: 'last-order', value: request.params.id },
+        { name: 'cart', value: '', maxAge: 0 },
+    ],
+    body: {
+        id: request.params.id,
+        tags: request.query.list('tag'),
+        note: request.query.string('note'),
+        session: request.cookies.session,
+        order: request.body,
+    },
+}))
+
+const options: ApiGatewayOptions = {
+    loggers: [{ sendEntries: () => undefined }],
+    eventTransport: { publishRate: 10, sendEvents: () => Promise.resolve() },
+    timeouts: { default: 5 },
+}
+
+const expectedBody = {
+    id: '42',
+    tags: ['a', 'b'],
+    note: 'x y',
+    session: 'abc',
+    order: { quantity: 3 },
+}
+
+async function sampleEvent<T>(name: string) {
+    return JSON.parse(await readFile(new URL(`events/${name}.json`, import.meta.url), 'utf-8')) as T
+}
+
+describe('lambda', () => {
+    for (const name of ['api-gateway-v1', 'api-gateway-v2', 'function-url']) {
+        it(`converts ${name} events to request options`, async () => {
+            const request = fromApiGatewayEvent(await sampleEvent<ApiGatewayEvent>(name))
+            assert.equal(request.method, 'POST')
+            assert.equal(request.headers.cookie, 'session=abc')
+            assert.equal(request.client.clientIp, '198.51.100.7')
+            assert.equal(request.client.userAgent, 'curl/8.4.0')
+
+            const { handler } = routeHttpRequest(request.method, request.uri)
+            assert.ok(handler)
+            const requestOptions = toRequestOptions(
+                handler,
+                request.uri,
+                request.headers,
+                request.body,
+            )
+            assert.deepEqual(new URLSearchParams(requestOptions.uri.split('?')[1]).getAll('tag'), [
+                'a',
+                'b',
+            ])
+            assert.deepEqual('json' in requestOptions && requestOptions.json, { quantity: 3 })
+        })
+    }
+
+    it('maps responses to REST API results', async () => {
+        const result = await handleApiGatewayEvent(
+            await sampleEvent<ApiGatewayV1Event>('api-gateway-v1'),
+            options,
+        )
+        assert.equal(result.statusCode, 201)
+        assert.equal(result.headers['x-order-id'], '42')
+        assert.equal(result.headers['set-cookie'], undefined)
+        assert.deepEqual(result.multiValueHeaders['set-cookie'], [
+            'last-order=42',
+            'cart=; Max-Age=0',
+        ])
+        assert.equal(result.isBase64Encoded, false)
+        assert.deepEqual(JSON.parse(result.body), expectedBody)
+    })
+
+    for (const name of ['api-gateway-v2', 'function-url']) {
+        it(`maps responses to ${name} results`, async () => {
+            const result = await handleApiGatewayEvent(
+                await sampleEvent<ApiGatewayV2Event>(name),
+                options,
+            )
+            assert.equal(result.statusCode, 201)
+            assert.equal(result.headers['x-order-id'], '42')
+            assert.equal(result.headers['set-cookie'], undefined)
+            assert.deepEqual(result.cookies, ['last-order=42', 'cart=; Max-Age=0'])
+            assert.equal(result.isBase64Encoded, false)
+            assert.deepEqual(JSON.parse(result.body), expectedBody)
+        })
+    }
+})